@@ -6,50 +6,165 @@ import {
   ModalContent, ModalBody, Text, IconButton, useDisclosure, Select, Input,
   VStack, HStack, useToast, extendTheme, ColorModeScript, Switch, FormControl,
   FormLabel, useColorMode, Popover, PopoverTrigger, PopoverContent, PopoverBody,
-  PopoverArrow, Spinner, Checkbox, UseToastOptions, BoxProps, TextProps
+  PopoverArrow, Spinner, Checkbox, UseToastOptions, BoxProps, TextProps, Slider,
+  SliderTrack, SliderFilledTrack, SliderThumb
 } from '@chakra-ui/react';
-import { DeleteIcon, InfoIcon } from '@chakra-ui/icons';
+import { DeleteIcon, InfoIcon, RepeatIcon } from '@chakra-ui/icons';
 import Cropper, { ReactCropperElement } from 'react-cropper';
 import 'cropperjs/dist/cropper.css';
 import './cropper-custom.css';
+import {
+  CropDimensions,
+  CropHistoryEntry,
+  CropRegion,
+  CropSettings,
+  ImageData,
+  ImageTransform
+} from './app/types';
+import {
+  loadImageElement,
+  roundCropDimensions,
+  isCropInBounds,
+  renderCropToCanvas,
+  releaseCanvas,
+  IDENTITY_TRANSFORM,
+  isIdentityTransform,
+  getTransformedSize
+} from './app/cropRender';
+import { createZip, ZipEntry } from './app/zip';
+import {
+  OutputFormat,
+  OutputSettings,
+  ResizeMode,
+  ResizeSettings,
+  DEFAULT_OUTPUT_SETTINGS,
+  OUTPUT_SIZE,
+  LOSSY_TYPES,
+  getOutputSize,
+  getCroppedCanvasOptions,
+  fitCropToOutput,
+  resolveOutputType,
+  getFillColor,
+  encodeCanvas,
+  getOutputFilename
+} from './app/output';
+import {
+  loadSession,
+  saveImages,
+  saveSessionState,
+  clearSession,
+  getStorageUsage
+} from './app/session';
+import {
+  CropPreset,
+  loadPresets,
+  savePresets,
+  mergePresets,
+  serializePresets,
+  parsePresets
+} from './app/presets';
+import { Dimensions, GlobalCropScaling, mapGlobalCrop } from './app/globalCrop';
+import {
+  ImportLimits,
+  DEFAULT_LIMITS,
+  LIMIT_BOUNDS,
+  loadLimits,
+  saveLimits,
+  normalizeLimits,
+  toBytes,
+  ImportOptions,
+  loadImportOptions,
+  saveImportOptions
+} from './app/limits';
+import {
+  CropPreview,
+  CropPreviewMode,
+  getThumbnail,
+  getCachedThumbnail,
+  getCropPreview,
+  releaseThumbnail,
+  releaseAllThumbnails
+} from './app/thumbnails';
+import { useVirtualGrid } from './app/useVirtualGrid';
+import {
+  createValidationPool,
+  isWorkerValidationSupported,
+  MAX_POOL_SIZE,
+  runWithConcurrency,
+  ValidationResult
+} from './app/validationPool';
+import {
+  computePerceptualHash,
+  ensureImageHashes,
+  hashFile,
+  isNearDuplicate,
+  makeUniqueName
+} from './app/duplicates';
+import { checkDeclaredType, detectImageType } from './app/fileSignature';
+import { getDroppedFiles, getPastedImages } from './app/fileSources';
+import { applyMetadata, MetadataSettings } from './app/metadata';
+import {
+  ASPECT_RATIO_CATALOGUE,
+  parseRatio,
+  formatRatio,
+  swapRatio,
+  isSquareRatio,
+  isKnownRatio,
+  findRatioSelection,
+  loadCustomRatios,
+  saveCustomRatios
+} from './app/aspectRatios';
+import {
+  RegionTemplate,
+  createRegionId,
+  getNextRegionName,
+  addRegionSuffix,
+  getRegionResize,
+  applyRegionTemplate
+} from './app/regions';
+import { UndoStack, createUndoStack, pushUndo, undo, redo } from './app/undoStack';
+import {
+  GridFilter,
+  GridOrder,
+  GridSortMode,
+  DEFAULT_GRID_ORDER,
+  orderImages,
+  moveImage,
+  insertImages,
+  getNumberPrefix
+} from './app/gridOrder';
+import { pruneSelection, selectRange, toggleSelection } from './app/selection';
+import {
+  HISTORY_EXPORT,
+  createHistoryEntry,
+  exportHistoryCsv,
+  exportHistoryJson,
+  getCropChange
+} from './app/cropHistory';
+import { detectFaces, suggestFaceCrop } from './app/faceCrop';
+
+// Type definitions for the modern File System Access API
+type WritableFileHandle = {
+  createWritable: () => Promise<{
+    write: (blob: Blob) => Promise<void>;
+    close: () => Promise<void>;
+  }>;
+};
 
-interface CropDimensions {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
-interface CropSettings extends CropDimensions {
-  aspectRatio: number;
-}
-
-// url and objectUrl both point to the same resource initially
-// url is preserved for history while objectUrl is used for cleanup
-interface ImageData {
-  id: string;
-  file: File;
-  url: string;
-  objectUrl: string;
-  cropped: boolean;
-  cropHistory: CropDimensions[];
-  cropSettings?: CropSettings;
-  canvasData?: Cropper.CanvasData;
-}
-
-// Type definition for the modern File System Access API
 type ShowSaveFilePicker = (options: {
   suggestedName?: string;
   types?: Array<{
     description: string;
     accept: Record<string, string[]>;
   }>;
-}) => Promise<{
-  createWritable: () => Promise<{
-    write: (blob: Blob) => Promise<void>;
-    close: () => Promise<void>;
-  }>;
-}>;
+}) => Promise<WritableFileHandle>;
+
+type DirectoryHandle = {
+  name: string;
+  getFileHandle: (name: string, options?: { create?: boolean }) => Promise<WritableFileHandle>;
+};
+
+type ShowDirectoryPicker = (options?: { mode?: 'read' | 'readwrite' }) => Promise<DirectoryHandle>;
 
 type ToastMessage = UseToastOptions & {
   status: 'warning' | 'error' | 'success' | 'info';
@@ -57,6 +172,31 @@ type ToastMessage = UseToastOptions & {
   description: string;
 };
 
+// Global mode crop state, which Clear session resets
+type GlobalCropState = {
+  settings: CropSettings | null;
+  source: Dimensions | null;
+  isPerImageCrop: boolean;
+  regionTemplate: RegionTemplate | null;
+};
+
+// An undoable grid action: each affected image before and after it (null when not in the list)
+// and, for actions that reset it, the Global mode crop state
+// index is the image's position before the action, filled in when the change is recorded
+type GridChange = {
+  images: Array<{ id: string; before: ImageData | null; after: ImageData | null; index?: number }>;
+  global?: { before: GlobalCropState; after: GlobalCropState };
+};
+
+// What grid cards show: the plain image, a crop preview, or both side by side
+type GridPreviewMode = 'original' | CropPreviewMode | 'compare';
+
+// The crop box and aspect ratio selection in the crop modal
+type CropSnapshot = {
+  crop: CropDimensions;
+  aspect: string;
+};
+
 const ACCEPTED_TYPES: Record<string, string[]> = {
   'image/jpeg': ['.jpg', '.jpeg'],
   'image/png': ['.png'],
@@ -64,9 +204,9 @@ const ACCEPTED_TYPES: Record<string, string[]> = {
   'image/webp': ['.webp']
 };
 
+// Smallest cropper container; image dimension limits are user-configurable
 const IMAGE_SIZE = {
-  MIN: 16,
-  MAX: 10000
+  MIN: 16
 };
 
 const CROP_SIZE = {
@@ -74,15 +214,29 @@ const CROP_SIZE = {
   MAX: 9999
 };
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024;
+// Card sizing shared by the grid layout and its virtualization
+const GRID = {
+  MIN_CARD_WIDTH: 200,
+  CARD_HEIGHT: 230,
+  GAP: 16
+};
+
+const ZIP = {
+  FILENAME: 'cropped-images.zip',
+  MANIFEST: 'manifest.json'
+};
 
 const TIMING = {
   DEBOUNCE: 50,
   FADE_OUT: 200,
   TOAST_DELAY: 300,
+  SESSION_SAVE: 500,
   TRANSITION: '0.2s'
 };
 
+// Fraction of the storage quota in use before warning the user
+const STORAGE_WARNING_THRESHOLD = 0.8;
+
 const COLORS = {
   DARK_TEXT: '#1A202C',
   WARNING_BG: '#E5C16D'
@@ -99,12 +253,76 @@ const TEXT = {
     OPTIONS: {
       PER_IMAGE: 'Per Image',
       GLOBAL: 'Global'
+    },
+    SCALING_LABEL: 'Apply Global Crop:',
+    SCALING: {
+      ABSOLUTE: 'As pixels',
+      RELATIVE: 'Relative (%)',
+      TOP_LEFT: 'Anchor top left',
+      TOP_RIGHT: 'Anchor top right',
+      BOTTOM_LEFT: 'Anchor bottom left',
+      BOTTOM_RIGHT: 'Anchor bottom right',
+      CENTER: 'Anchor centre'
     }
   },
   UPLOAD: {
-    PROMPT: 'Click here to upload or drop images anywhere (max 10)'
+    PROMPT: (max: number) => `Click here to upload or drop images anywhere (max ${max})`
   },
   REFRESH: 'If images fail to load, please refresh the page.',
+  LIMITS: {
+    BUTTON: 'Import Limits',
+    FIELDS: {
+      maxImages: 'Max images:',
+      maxFileSize: 'Max file size (MB):',
+      maxBatchSize: 'Max batch size (MB):',
+      minDimension: 'Min dimension (px):',
+      maxDimension: 'Max dimension (px):'
+    } as Record<keyof ImportLimits, string>,
+    NEAR_DUPLICATES: 'Flag near-duplicate images',
+    ACCEPT_MISMATCHED: 'Accept files with the wrong extension'
+  },
+  ORDER: {
+    SORT_LABEL: 'Sort:',
+    SORT: {
+      name: 'Name',
+      size: 'File size',
+      dimensions: 'Dimensions',
+      added: 'Date added',
+      cropped: 'Cropped status',
+      manual: 'Manual (drag)'
+    } as Record<GridSortMode, string>,
+    REVERSE: 'Reverse order',
+    FILTER_LABEL: 'Show:',
+    FILTERS: {
+      all: 'All',
+      uncropped: 'Uncropped only',
+      cropped: 'Cropped only'
+    } as Record<GridFilter, string>,
+    NO_MATCHES: 'No images match the filter',
+    PREVIEW_LABEL: 'Preview:',
+    PREVIEWS: {
+      original: 'Original',
+      outline: 'Crop outline',
+      cropped: 'Cropped result',
+      compare: 'Before / after'
+    } as Record<GridPreviewMode, string>,
+    NO_CROP: 'No crop'
+  },
+  SELECTION: {
+    COUNT: (count: number) => `${count} selected`,
+    SELECT: 'Select image',
+    SELECT_ALL: 'Select all',
+    CLEAR: 'Clear selection',
+    CROP: 'Crop selected',
+    DOWNLOAD_ZIP: 'Download selected as ZIP',
+    RESET: 'Reset crop',
+    COPY_CROP: 'Copy crop from...',
+    DELETE: 'Delete selected'
+  },
+  SAVE: {
+    IMAGE_DESCRIPTION: 'Image',
+    FOLDER: (name: string) => `Saving to: ${name}`
+  },
   CROP_HISTORY: {
     TITLE: 'Crop History',
     UNITS: '(in pixels)',
@@ -113,13 +331,98 @@ const TEXT = {
       X: 'X',
       Y: 'Y',
       WIDTH: 'Width',
-      HEIGHT: 'Height'
-    }
+      HEIGHT: 'Height',
+      OUTPUT: 'Output'
+    },
+    NO_OUTPUT: '-',
+    REGIONS: (names: string[]) => `Regions: ${names.join(', ')}`,
+    RESTORE_TITLE: 'Reopen the crop modal with this crop',
+    REMOVE: 'Remove entry',
+    ENTRY_LABEL: (entry: CropHistoryEntry) =>
+      [
+        entry.timestamp
+          ? new Date(entry.timestamp).toLocaleString(undefined, {
+              dateStyle: 'short',
+              timeStyle: 'short'
+            })
+          : '',
+        entry.format ? entry.format.replace('image/', '').toUpperCase() : ''
+      ]
+        .filter(Boolean)
+        .join(' · '),
+    CHANGE: (change: CropDimensions) => {
+      const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+      return [
+        change.x || change.y ? `moved ${signed(change.x)}, ${signed(change.y)}` : '',
+        change.width || change.height
+          ? `resized ${signed(change.width)} x ${signed(change.height)}`
+          : ''
+      ]
+        .filter(Boolean)
+        .join('; ');
+    },
+    EXPORT: 'Export history...',
+    EXPORT_FORMATS: { CSV: 'CSV', JSON: 'JSON' },
+    TRANSFORM: (transform: ImageTransform) =>
+      [
+        transform.rotate + transform.straighten
+          ? `${+(transform.rotate + transform.straighten).toFixed(1)}°`
+          : '',
+        transform.scaleX < 0 ? 'flip H' : '',
+        transform.scaleY < 0 ? 'flip V' : ''
+      ]
+        .filter(Boolean)
+        .join(', ')
   },
   BUTTONS: {
     CROP: 'Crop',
     CANCEL: 'Cancel',
-    CROP_DOWNLOAD: 'Crop & Download'
+    CROP_DOWNLOAD: 'Crop & Download',
+    CROP_ALL: 'Crop All',
+    DOWNLOAD_ZIP: 'Download all as ZIP',
+    SAVE_TO_FOLDER: 'Save to folder...',
+    STOP_SAVING_TO_FOLDER: 'Stop saving to folder',
+    OUTPUT: 'Output Settings',
+    CLEAR_SESSION: 'Clear session',
+    AUTO_SUGGEST: 'Auto-suggest crops',
+    AUTO_SUGGEST_TITLE: 'Frame the faces in each image at the last used aspect ratio',
+    AUTO_SUGGEST_GLOBAL_TITLE: 'Switch to Per-Image crops to get a suggestion for each image',
+    ADD_FOLDER: 'Add folder',
+    UNDO: 'Undo',
+    REDO: 'Redo',
+    UNDO_TITLE: 'Undo delete, bulk edits, Crop All or Clear session (Ctrl+Z)',
+    REDO_TITLE: 'Redo (Ctrl+Shift+Z)'
+  },
+  OUTPUT: {
+    FORMAT_LABEL: 'Format:',
+    FORMATS: {
+      ORIGINAL: 'Keep original',
+      JPEG: 'JPEG',
+      PNG: 'PNG',
+      WEBP: 'WebP'
+    },
+    QUALITY_LABEL: (quality: number) => `Quality: ${Math.round(quality * 100)}%`,
+    BACKGROUND_LABEL: 'Background:',
+    RESIZE_LABEL: 'Resize:',
+    RESIZE_MODES: {
+      NONE: 'Crop size',
+      EXACT: 'Exact size',
+      MAX_EDGE: 'Max edge',
+      SCALE: 'Scale'
+    },
+    EXACT_HINT: 'Crops of another shape are trimmed to it around their centre',
+    WIDTH_LABEL: 'W:',
+    HEIGHT_LABEL: 'H:',
+    MAX_EDGE_LABEL: 'Max edge (px):',
+    SCALE_LABEL: 'Scale (%):',
+    METADATA_LABEL: 'Keep metadata (JPEG):',
+    METADATA: {
+      copyright: 'Copyright',
+      captureDate: 'Capture date',
+      iccProfile: 'Colour profile'
+    } as Record<keyof MetadataSettings, string>,
+    METADATA_HINT: 'Everything else, including GPS location, is removed',
+    NUMBER_FILES: 'Number files in grid order'
   },
   MODAL: {
     ORIGINAL_LABEL: 'Original:',
@@ -133,22 +436,80 @@ const TEXT = {
         VALUE: 'original',
         LABEL: 'Original'
       },
-      SQUARE: {
-        VALUE: '1:1',
-        LABEL: '1:1'
+      CUSTOM: {
+        VALUE: 'custom',
+        LABEL: 'Custom...',
+        GROUP: 'Custom ratios'
       }
     },
-    SAVE_ON_CANCEL: 'Save on Cancel'
+    CUSTOM_RATIO: {
+      WIDTH: 'Ratio width',
+      HEIGHT: 'Ratio height',
+      SEPARATOR: ':',
+      APPLY: 'Apply'
+    },
+    SWAP_ORIENTATION: 'Swap portrait/landscape',
+    AUTO_CROP: 'Auto',
+    AUTO_CROP_TITLE: 'Frame the faces in the photo at the selected aspect ratio',
+    SAVE_ON_CANCEL: 'Save on Cancel',
+    TRANSFORM: {
+      ROTATE_LEFT: '↺ 90°',
+      ROTATE_RIGHT: '↻ 90°',
+      ROTATE_LEFT_LABEL: 'Rotate left',
+      ROTATE_RIGHT_LABEL: 'Rotate right',
+      FLIP_HORIZONTAL: 'Flip H',
+      FLIP_VERTICAL: 'Flip V',
+      STRAIGHTEN: (degrees: number) => `Straighten: ${degrees.toFixed(1)}°`,
+      RESET: 'Reset'
+    }
+  },
+  REGIONS: {
+    LABEL: 'Regions:',
+    ADD: 'Add region',
+    EDIT: 'Edit',
+    EDITING: 'Editing',
+    NAME: 'Region name',
+    OUTPUT_WIDTH: 'Output width',
+    OUTPUT_HEIGHT: 'Output height',
+    AUTO: 'Auto',
+    SIZE_SEPARATOR: 'x',
+    DELETE: 'Delete region',
+    SAVE_TEMPLATE: 'Use as template',
+    APPLY_TEMPLATE: (count: number) => `Apply template (${count})`,
+    CLEAR_TEMPLATE: 'Clear template',
+    HINT: 'Crop & save writes every region. Leave an output side empty to keep the ratio',
+    TEMPLATE_HINT: 'Crop All uses the template for images without regions of their own'
+  },
+  PRESETS: {
+    LABEL: 'Preset:',
+    PLACEHOLDER: 'Choose preset',
+    NAME_PLACEHOLDER: 'Preset name',
+    SAVE: 'Save',
+    EXPORT: 'Export',
+    IMPORT: 'Import',
+    FILENAME: 'crop-presets.json'
   },
   TOASTS: {
     LIMIT: {
       TITLE: 'Images ignored',
-      DESC: (count: number) => `${count} ${pluralize('image', count)} ignored because of limit`
+      DESC: (count: number, limit: number) =>
+        `${count} ${pluralize('image', count)} ignored because of limit (max ${limit})`
+    },
+    IMPORT_CANCELLED: {
+      TITLE: 'Import cancelled',
+      DESC: (count: number) => `${count} ${pluralize('file', count)} not imported`
     },
     DUPLICATES: {
       TITLE: 'Duplicates detected',
       DESC: (count: number) => `${count} duplicate ${pluralize('file', count)} ignored`
     },
+    NEAR_DUPLICATES: {
+      TITLE: 'Similar images added',
+      DESC: (count: number) =>
+        `${count} ${pluralize('image', count)} ${
+          count === 1 ? 'looks' : 'look'
+        } like images already added`
+    },
     INVALID_TYPE: {
       TITLE: 'Invalid files',
       DESC: (count: number) => {
@@ -158,19 +519,24 @@ const TEXT = {
     },
     FILE_SIZE: {
       TITLE: 'File too large',
-      DESC: (count: number) =>
-        `${count} ${pluralize('image exceeds', 'images exceed', count)} maximum size of 10MB`
+      DESC: (count: number, maxSize: number) =>
+        `${count} ${pluralize('image exceeds', 'images exceed', count)} maximum size of ${maxSize}MB`
+    },
+    BATCH_SIZE: {
+      TITLE: 'Batch too large',
+      DESC: (count: number, maxSize: number) =>
+        `${count} ${pluralize('image', count)} not added, as all images together may not exceed ${maxSize}MB`
     },
     MIME_MISMATCH: {
       TITLE: 'Mismatched file type',
       DESC: (count: number) =>
-        `${count} ${pluralize("file extension doesn't match its", "file extensions don't match their", count)} content type)`
+        `${count} ${pluralize("file extension doesn't match its", "file extensions don't match their", count)} content type`
     },
     INVALID_DIMENSIONS: {
       TITLE: 'Invalid image dimensions',
-      DESC: (count: number) =>
+      DESC: (count: number, minSize: number, maxSize: number) =>
         `${count} ${pluralize('image is', 'images are', count)} not between\n` +
-        `${IMAGE_SIZE.MIN}px and ${IMAGE_SIZE.MAX}px in either direction`
+        `${minSize}px and ${maxSize}px in either direction`
     },
     INVALID_IMAGES: {
       TITLE: 'Invalid images',
@@ -180,10 +546,98 @@ const TEXT = {
     LOAD_ERROR: {
       TITLE: 'Error',
       DESC: 'Failed to load image'
+    },
+    BATCH_CROPPED: {
+      TITLE: 'Batch crop complete',
+      DESC: (count: number) => `${count} ${pluralize('image was', 'images were', count)} cropped`
+    },
+    BATCH_NO_CROP: {
+      TITLE: 'Images skipped',
+      DESC: (count: number) =>
+        `${count} ${pluralize('image has', 'images have', count)} no crop rectangle yet`
+    },
+    BATCH_OUT_OF_BOUNDS: {
+      TITLE: 'Crop outside image',
+      DESC: (count: number) =>
+        `${count} ${pluralize('image was', 'images were', count)} skipped because the crop ` +
+        `rectangle falls outside ${pluralize('its', 'their', count)} bounds`
+    },
+    SESSION_RESTORED: {
+      TITLE: 'Session restored',
+      DESC: (count: number) => `${count} ${pluralize('image was', 'images were', count)} restored`
+    },
+    SESSION_ERROR: {
+      TITLE: 'Session not saved',
+      DESC: 'Your images could not be saved for the next visit'
+    },
+    STORAGE_QUOTA: {
+      TITLE: 'Storage almost full',
+      DESC: (percent: number) =>
+        `${percent}% of browser storage is in use. Remove images or clear the session to free space`
+    },
+    PRESETS_IMPORTED: {
+      TITLE: 'Presets imported',
+      DESC: (count: number) => `${count} ${pluralize('preset was', 'presets were', count)} imported`
+    },
+    PRESETS_INVALID: {
+      TITLE: 'Invalid presets file',
+      DESC: 'The file does not contain any valid crop presets'
+    },
+    SAVE_ERROR: {
+      TITLE: 'Error',
+      DESC: 'Failed to save the cropped image'
+    },
+    ZIP_ERROR: {
+      TITLE: 'Error',
+      DESC: 'Failed to build the ZIP archive'
+    },
+    BATCH_FAILED: {
+      TITLE: 'Crop failed',
+      DESC: (count: number) =>
+        `${count} ${pluralize('image', count)} could not be loaded or cropped`
+    },
+    FACES_SUGGESTED: {
+      TITLE: 'Crops suggested',
+      DESC: (count: number) =>
+        `${count} ${pluralize('image was', 'images were', count)} framed on the faces found`
+    },
+    UNDO_LIMIT: {
+      TITLE: 'Cannot restore images',
+      DESC: (count: number, limit: number) =>
+        `Restoring ${count} ${pluralize('image', count)} would exceed the limit of ${limit} images`
+    },
+    NO_FACES: {
+      TITLE: 'No faces found',
+      DESC: (count: number) =>
+        `No faces were found in ${count} ${pluralize('image', count)}; ` +
+        `${pluralize('its', 'their', count)} crop was left unchanged`
+    },
+    CROP_COPIED: {
+      TITLE: 'Crop copied',
+      DESC: (count: number, filename: string) =>
+        `Crop from ${filename} applied to ${count} ${pluralize('image', count)}`
     }
   },
+  SHORTCUTS: {
+    BUTTON: 'Shortcuts (?)',
+    TITLE: 'Keyboard shortcuts',
+    ITEMS: [
+      { KEYS: 'Arrow keys', DESC: 'Move the crop box by 1px' },
+      { KEYS: 'Shift + arrows', DESC: 'Move the crop box by 10px' },
+      { KEYS: 'Enter', DESC: 'Crop & save, then open the next image' },
+      { KEYS: 'Esc', DESC: 'Cancel and close' },
+      { KEYS: 'PageDown / J', DESC: 'Next image' },
+      { KEYS: 'PageUp / K', DESC: 'Previous image' },
+      { KEYS: 'Ctrl + Z', DESC: 'Undo crop box change' },
+      { KEYS: 'Ctrl + Shift + Z', DESC: 'Redo crop box change' },
+      { KEYS: '?', DESC: 'Show or hide this list' }
+    ]
+  },
   OVERLAY: {
-    PROCESSING: 'Processing images...'
+    PROCESSING: 'Processing images...',
+    VALIDATING: (done: number, total: number) => `Checking images... (${done}/${total})`,
+    CROPPING: (done: number, total: number) => `Cropping images... (${done}/${total})`,
+    ZIPPING: 'Building ZIP archive...'
   }
 };
 
@@ -238,8 +692,9 @@ const debounce = (func: Function, wait: number) => {
   };
 };
 
-const getFileExtension = (filename: string): string => {
-  return filename.slice(((filename.lastIndexOf('.') - 1) >>> 0) + 2).toLowerCase();
+// True when the user dismissed a File System Access picker
+const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
 };
 
 const formatNumber = (num: number): string => {
@@ -263,6 +718,116 @@ const convertToActualSize = (
   return Math.round((displaySize / containerSize) * originalSize);
 };
 
+// Sets one crop value, clamped so the rectangle stays inside the image
+// Position is limited by the current size, size by the current position
+const clampCropValue = <T extends CropDimensions>(
+  key: keyof CropDimensions,
+  value: number,
+  data: T,
+  natural: { width: number; height: number }
+): T => {
+  const newData = { ...data };
+
+  switch (key) {
+    case 'x':
+      newData.x = Math.max(0, Math.min(natural.width - data.width, value));
+      break;
+    case 'y':
+      newData.y = Math.max(0, Math.min(natural.height - data.height, value));
+      break;
+    case 'width':
+      newData.width = Math.max(1, Math.min(natural.width - data.x, value));
+      break;
+    case 'height':
+      newData.height = Math.max(1, Math.min(natural.height - data.y, value));
+      break;
+  }
+
+  return newData;
+};
+
+// Rotates and flips the image in a cropper, then fits it back into the container
+// since a quarter turn can push a landscape image outside a landscape container
+const applyTransformToCropper = (
+  cropper: ReactCropperElement['cropper'],
+  transform: ImageTransform
+) => {
+  cropper.rotateTo(transform.rotate + transform.straighten);
+  cropper.scale(transform.scaleX, transform.scaleY);
+
+  const container = cropper.getContainerData();
+  const canvas = cropper.getCanvasData();
+  const ratio = Math.min(
+    container.width / canvas.naturalWidth,
+    container.height / canvas.naturalHeight
+  );
+  const width = canvas.naturalWidth * ratio;
+  const height = canvas.naturalHeight * ratio;
+  cropper.setCanvasData({
+    left: (container.width - width) / 2,
+    top: (container.height - height) / 2,
+    width,
+    height
+  });
+};
+
+const roundSize = (size: { width: number; height: number }) => ({
+  width: Math.round(size.width),
+  height: Math.round(size.height)
+});
+
+// True for elements that handle typing, arrow keys and undo themselves
+const isEditingTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  return (
+    !!element &&
+    (['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) ||
+      element.isContentEditable ||
+      element.getAttribute('role') === 'slider')
+  );
+};
+
+// Ctrl+Z (Cmd+Z on macOS) undoes; adding Shift, or Ctrl+Y, redoes
+const getUndoShortcut = (e: KeyboardEvent): 'undo' | 'redo' | null => {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return null;
+  const key = e.key.toLowerCase();
+  if (key === 'z') return e.shiftKey ? 'redo' : 'undo';
+  return key === 'y' && !e.shiftKey ? 'redo' : null;
+};
+
+// The parts of an image that grid undo restores, leaving its file and URLs alone
+const getCropState = (image: ImageData) => ({
+  cropped: image.cropped,
+  cropHistory: image.cropHistory,
+  cropSettings: image.cropSettings,
+  canvasData: image.canvasData,
+  transform: image.transform,
+  regions: image.regions
+});
+
+const isSameCrop = (a: CropDimensions, b: CropDimensions): boolean => {
+  const roundedA = roundCropDimensions(a);
+  const roundedB = roundCropDimensions(b);
+  return (
+    roundedA.x === roundedB.x &&
+    roundedA.y === roundedB.y &&
+    roundedA.width === roundedB.width &&
+    roundedA.height === roundedB.height
+  );
+};
+
+// Short label for an aspect ratio selection value, e.g. in the region list
+const getAspectLabel = (value: string): string => {
+  switch (value) {
+    case TEXT.MODAL.ASPECT_RATIOS.FREE.VALUE:
+      return TEXT.MODAL.ASPECT_RATIOS.FREE.LABEL;
+    case TEXT.MODAL.ASPECT_RATIOS.ORIGINAL.VALUE:
+      return TEXT.MODAL.ASPECT_RATIOS.ORIGINAL.LABEL;
+    default:
+      return value;
+  }
+};
+
 // Displays a filename with intelligent truncation
 // Maintains file extension
 // Truncates from the middle
@@ -419,6 +984,58 @@ const TruncatedFileName: React.FC<{
   );
 };
 
+// Renders a cached, downscaled thumbnail instead of the full-resolution source, or a preview
+// of the saved crop drawn from it when one is given
+// A preview that cannot be drawn falls back to the plain thumbnail, and a thumbnail that
+// cannot be generated to the original image
+const GridThumbnail: React.FC<{ image: ImageData; preview?: CropPreview }> = ({
+  image,
+  preview
+}) => {
+  const [src, setSrc] = useState(() => (preview ? undefined : getCachedThumbnail(image.id)));
+  const previewKey = preview ? JSON.stringify(preview) : '';
+  const previewRef = useRef(preview);
+  previewRef.current = preview;
+
+  useEffect(() => {
+    let cancelled = false;
+    const current = previewRef.current;
+    const showThumbnail = () =>
+      getThumbnail(image.id, image.file, image.url)
+        .then((url) => {
+          if (!cancelled) setSrc(url);
+        })
+        .catch((error) => {
+          console.warn('Thumbnail generation failed:', error);
+          if (!cancelled) setSrc(image.url);
+        });
+
+    if (current) {
+      getCropPreview(image.id, image.file, image.url, current)
+        .then((url) => {
+          if (!cancelled) setSrc(url);
+        })
+        .catch((error) => {
+          console.warn('Crop preview failed:', error);
+          showThumbnail();
+        });
+    } else {
+      showThumbnail();
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [image.id, image.file, image.url, previewKey]);
+
+  if (!src) {
+    return <Spinner size="sm" color="gray.500" />;
+  }
+
+  return (
+    <Image src={src} maxH="150px" maxW="100%" objectFit="contain" width="auto" height="auto" />
+  );
+};
+
 export const ImageCropperApp: React.FC = () => {
   const [images, setImages] = useState<ImageData[]>([]);
   const [currentImage, setCurrentImage] = useState<ImageData | null>(null);
@@ -430,24 +1047,88 @@ export const ImageCropperApp: React.FC = () => {
     aspectRatio: 0
   });
   const [globalCropSettings, setGlobalCropSettings] = useState<CropSettings | null>(null);
+  // Dimensions of the image the global crop was drawn on, used to map it to other images
+  const [globalCropSource, setGlobalCropSource] = useState<Dimensions | null>(null);
+  const [globalCropScaling, setGlobalCropScaling] = useState<GlobalCropScaling>('absolute');
   const [isPerImageCrop, setIsPerImageCrop] = useState(true);
   const [originalDimensions, setOriginalDimensions] = useState<{
     width: number;
     height: number;
   } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isDetectingFaces, setIsDetectingFaces] = useState(false);
   const [selectedAspectRatio, setSelectedAspectRatio] = useState(
     TEXT.MODAL.ASPECT_RATIOS.FREE.VALUE
   );
   const [saveOnCancel, setSaveOnCancel] = useState(false);
   const [initialCropSettings, setInitialCropSettings] = useState<CropSettings | null>(null);
+  const [activeTransform, setActiveTransform] = useState<ImageTransform>(IDENTITY_TRANSFORM);
+  const [customRatios, setCustomRatios] = useState<string[]>(loadCustomRatios);
+  // Set while the custom W:H inputs are shown
+  const [customRatioInput, setCustomRatioInput] = useState<{
+    width: string;
+    height: string;
+  } | null>(null);
   const [isClosing, setIsClosing] = useState(false);
   const [openPopoverId, setOpenPopoverId] = useState<string | null>(null);
+  // Image to open once the previous one's changes are in state, see handleNavigate
+  const [pendingImageId, setPendingImageId] = useState<string | null>(null);
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+  // Region the crop box currently edits, mirrored in activeRegionIdRef for cropper events
+  const [activeRegionId, setActiveRegionId] = useState<string | null>(null);
+  const [regionTemplate, setRegionTemplate] = useState<RegionTemplate | null>(null);
+  const [gridHistory, setGridHistory] = useState<UndoStack<GridChange>>(createUndoStack);
+  const [gridOrder, setGridOrder] = useState<GridOrder>(DEFAULT_GRID_ORDER);
+  const [draggedImageId, setDraggedImageId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [gridPreview, setGridPreview] = useState<GridPreviewMode>('original');
+  // Position and scale of the image in the cropper, for drawing the other regions
+  const [cropperView, setCropperView] = useState<{
+    left: number;
+    top: number;
+    scale: number;
+  } | null>(null);
+  const [batchProgress, setBatchProgress] = useState<{
+    done: number;
+    total: number;
+    isZipping?: boolean;
+  } | null>(null);
+  const [saveDirectory, setSaveDirectory] = useState<DirectoryHandle | null>(null);
+  const [outputSettings, setOutputSettings] = useState<OutputSettings>(DEFAULT_OUTPUT_SETTINGS);
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+  const [isSessionLoaded, setIsSessionLoaded] = useState(false);
+  const [presets, setPresets] = useState<CropPreset[]>(loadPresets);
+  const [importLimits, setImportLimits] = useState<ImportLimits>(loadLimits);
+  const [importOptions, setImportOptions] = useState<ImportOptions>(loadImportOptions);
+  const [selectedPresetName, setSelectedPresetName] = useState('');
+  const [presetName, setPresetName] = useState('');
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const presetInputRef = useRef<HTMLInputElement>(null);
   const cropperRef = useRef<ReactCropperElement>(null);
   const processingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const objectUrlsToCleanup = useRef<string[]>([]);
+  const storageWarningShownRef = useRef(false);
+  // Images whose size has been measured, or is being measured, after a session restore
+  const measuredIdsRef = useRef(new Set<string>());
+  const importAbortRef = useRef<AbortController | null>(null);
+  // Latest handlers for listeners that are bound once per modal session
+  const modalKeyDownRef = useRef<(e: KeyboardEvent) => void>();
+  const openCropModalRef = useRef<(image: ImageData) => void>();
+  const activeRegionIdRef = useRef<string | null>(null);
+  const gridKeyDownRef = useRef<(e: KeyboardEvent) => void>();
+  // Last toggled card, and whether the pending toggle was a shift-click
+  const selectionAnchorRef = useRef<string | null>(null);
+  const selectionShiftRef = useRef(false);
+  const cropEditRef = useRef<(aspect?: string) => void>();
+  // Crop box changes of the open image, and the state the latest change left it in
+  const cropUndoRef = useRef<{
+    stack: UndoStack<{ before: CropSnapshot; after: CropSnapshot }>;
+    current: CropSnapshot | null;
+  }>({ stack: createUndoStack(), current: null });
 
   const { isOpen, onOpen, onClose } = useDisclosure();
   const { colorMode, toggleColorMode } = useColorMode();
@@ -459,7 +1140,35 @@ export const ImageCropperApp: React.FC = () => {
     status: 'warning'
   });
 
-  const existingFilenames = useMemo(() => new Set(images.map((img) => img.file.name)), [images]);
+  // Images shown in the grid, in the chosen order
+  const visibleImages = useMemo(() => orderImages(images, gridOrder), [images, gridOrder]);
+  const isManualOrder = gridOrder.sort === 'manual';
+
+  // Bulk actions apply to the selected images in grid order
+  // Selected images hidden by the filter are left out
+  const selectedImages = useMemo(() => {
+    const ids = new Set(selectedIds);
+    return visibleImages.filter((image) => ids.has(image.id));
+  }, [visibleImages, selectedIds]);
+
+  // Deleted images, including those removed by undo, leave the selection
+  useEffect(() => {
+    const ids = new Set(images.map((image) => image.id));
+    setSelectedIds((prev) => pruneSelection(prev, ids));
+  }, [images]);
+
+  // Regions of the image open in the crop modal, read from the list so edits show at once
+  const currentRegions = useMemo(
+    () => (currentImage && images.find((img) => img.id === currentImage.id)?.regions) || [],
+    [images, currentImage]
+  );
+
+  const virtualGrid = useVirtualGrid({
+    itemCount: visibleImages.length,
+    minItemWidth: GRID.MIN_CARD_WIDTH,
+    itemHeight: GRID.CARD_HEIGHT,
+    gap: GRID.GAP
+  });
 
   const createToastMessage = useCallback(
     (
@@ -471,7 +1180,16 @@ export const ImageCropperApp: React.FC = () => {
         | 'mime-mismatch'
         | 'invalid-dimensions'
         | 'invalid-image'
-        | 'load-error',
+        | 'load-error'
+        | 'save-error'
+        | 'session-restored'
+        | 'session-error'
+        | 'storage-quota'
+        | 'presets-imported'
+        | 'presets-invalid'
+        | 'crop-copied'
+        | 'no-faces'
+        | 'undo-limit',
       params?: {
         count?: number;
         filename?: string;
@@ -480,6 +1198,7 @@ export const ImageCropperApp: React.FC = () => {
         ignored?: number;
         minSize?: number;
         maxSize?: number;
+        limit?: number;
       },
       immediate = false
     ): ToastMessage => {
@@ -496,7 +1215,10 @@ export const ImageCropperApp: React.FC = () => {
       switch (type) {
         case 'limit':
           message.title = TEXT.TOASTS.LIMIT.TITLE;
-          message.description = TEXT.TOASTS.LIMIT.DESC(params?.count || 0);
+          message.description = TEXT.TOASTS.LIMIT.DESC(
+            params?.count || 0,
+            params?.limit || DEFAULT_LIMITS.maxImages
+          );
           break;
 
         case 'duplicate':
@@ -511,7 +1233,10 @@ export const ImageCropperApp: React.FC = () => {
 
         case 'file-size':
           message.title = TEXT.TOASTS.FILE_SIZE.TITLE;
-          message.description = TEXT.TOASTS.FILE_SIZE.DESC(params?.count || 0);
+          message.description = TEXT.TOASTS.FILE_SIZE.DESC(
+            params?.count || 0,
+            params?.maxSize || DEFAULT_LIMITS.maxFileSize
+          );
           break;
 
         case 'mime-mismatch':
@@ -521,7 +1246,11 @@ export const ImageCropperApp: React.FC = () => {
 
         case 'invalid-dimensions':
           message.title = TEXT.TOASTS.INVALID_DIMENSIONS.TITLE;
-          message.description = TEXT.TOASTS.INVALID_DIMENSIONS.DESC(params?.count || 0);
+          message.description = TEXT.TOASTS.INVALID_DIMENSIONS.DESC(
+            params?.count || 0,
+            params?.minSize || DEFAULT_LIMITS.minDimension,
+            params?.maxSize || DEFAULT_LIMITS.maxDimension
+          );
           break;
 
         case 'invalid-image':
@@ -535,6 +1264,63 @@ export const ImageCropperApp: React.FC = () => {
           message.title = TEXT.TOASTS.LOAD_ERROR.TITLE;
           message.description = TEXT.TOASTS.LOAD_ERROR.DESC;
           break;
+
+        case 'save-error':
+          message.status = 'error';
+          message.title = TEXT.TOASTS.SAVE_ERROR.TITLE;
+          message.description = TEXT.TOASTS.SAVE_ERROR.DESC;
+          break;
+
+        case 'session-restored':
+          message.status = 'info';
+          message.title = TEXT.TOASTS.SESSION_RESTORED.TITLE;
+          message.description = TEXT.TOASTS.SESSION_RESTORED.DESC(params?.count || 0);
+          break;
+
+        case 'session-error':
+          message.status = 'error';
+          message.title = TEXT.TOASTS.SESSION_ERROR.TITLE;
+          message.description = TEXT.TOASTS.SESSION_ERROR.DESC;
+          break;
+
+        case 'presets-imported':
+          message.status = 'success';
+          message.title = TEXT.TOASTS.PRESETS_IMPORTED.TITLE;
+          message.description = TEXT.TOASTS.PRESETS_IMPORTED.DESC(params?.count || 0);
+          break;
+
+        case 'presets-invalid':
+          message.status = 'error';
+          message.title = TEXT.TOASTS.PRESETS_INVALID.TITLE;
+          message.description = TEXT.TOASTS.PRESETS_INVALID.DESC;
+          break;
+
+        case 'storage-quota':
+          message.title = TEXT.TOASTS.STORAGE_QUOTA.TITLE;
+          message.description = TEXT.TOASTS.STORAGE_QUOTA.DESC(params?.count || 0);
+          break;
+
+        case 'no-faces':
+          message.title = TEXT.TOASTS.NO_FACES.TITLE;
+          message.description = TEXT.TOASTS.NO_FACES.DESC(params?.count || 0);
+          break;
+
+        case 'undo-limit':
+          message.title = TEXT.TOASTS.UNDO_LIMIT.TITLE;
+          message.description = TEXT.TOASTS.UNDO_LIMIT.DESC(
+            params?.count || 0,
+            params?.limit || DEFAULT_LIMITS.maxImages
+          );
+          break;
+
+        case 'crop-copied':
+          message.status = 'success';
+          message.title = TEXT.TOASTS.CROP_COPIED.TITLE;
+          message.description = TEXT.TOASTS.CROP_COPIED.DESC(
+            params?.count || 0,
+            params?.filename || ''
+          );
+          break;
       }
 
       if (immediate) {
@@ -554,15 +1340,107 @@ export const ImageCropperApp: React.FC = () => {
     objectUrlsToCleanup.current = objectUrlsToCleanup.current.filter((u) => u !== url);
   };
 
+  // Triggers a browser download through a temporary anchor element
+  const downloadFile = (file: File) => {
+    const downloadUrl = URL.createObjectURL(file);
+    addUrlForCleanup(downloadUrl);
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    link.download = file.name;
+    link.click();
+    URL.revokeObjectURL(downloadUrl);
+    removeUrlFromCleanup(downloadUrl);
+  };
+
+  // Saves a file using the best available method:
+  // Folder mode: writes into the chosen directory without prompting
+  // Save picker: asks for a location when allowed and supported
+  // Otherwise: falls back to an anchor download
+  // Rejects with an AbortError if the user dismisses the picker
+  const saveFile = async (file: File, usePicker: boolean) => {
+    const showSaveFilePicker = (window as any).showSaveFilePicker as ShowSaveFilePicker | undefined;
+
+    let handle: WritableFileHandle | null = null;
+    if (saveDirectory) {
+      handle = await saveDirectory.getFileHandle(file.name, { create: true });
+    } else if (usePicker && showSaveFilePicker) {
+      const accept = ACCEPTED_TYPES[file.type];
+      handle = await showSaveFilePicker({
+        suggestedName: file.name,
+        types: accept
+          ? [{ description: TEXT.SAVE.IMAGE_DESCRIPTION, accept: { [file.type]: accept } }]
+          : undefined
+      });
+    }
+
+    if (!handle) {
+      downloadFile(file);
+      return;
+    }
+
+    const writable = await handle.createWritable();
+    await writable.write(file);
+    await writable.close();
+  };
+
+  // Updates one resize option, clamping numeric values to the supported range
+  const handleResizeChange = (key: keyof ResizeSettings, value: string) => {
+    setOutputSettings((prev) => {
+      if (key === 'mode') {
+        return { ...prev, resize: { ...prev.resize, mode: value as ResizeMode } };
+      }
+
+      const [min, max] =
+        key === 'scale'
+          ? [OUTPUT_SIZE.SCALE_MIN, OUTPUT_SIZE.SCALE_MAX]
+          : [OUTPUT_SIZE.MIN, OUTPUT_SIZE.MAX];
+      const num = Math.max(min, Math.min(max, Math.round(Number(value)) || min));
+      return { ...prev, resize: { ...prev.resize, [key]: num } };
+    });
+  };
+
+  // Wraps encoded crop output in a File named after its source
+  // The extension follows the type actually encoded, not the requested one
+  const createCroppedFile = (blob: Blob, sourceName: string, prefix = ''): File => {
+    const filename = getOutputFilename(sourceName, ACCEPTED_TYPES[blob.type] || []);
+    return new File([blob], `${prefix}cropped-${filename}`, { type: blob.type });
+  };
+
+  // Number prefix for an image's outputs when numbering is on, from its place in the grid
+  const getOutputPrefix = (image: ImageData): string => {
+    if (!outputSettings.numberFiles) return '';
+    const index = visibleImages.findIndex((img) => img.id === image.id);
+    return index === -1 ? '' : getNumberPrefix(index, visibleImages.length);
+  };
+
+  // Lets the user pick a folder once, after which every crop is written there directly
+  const handleSaveDirectoryToggle = async () => {
+    if (saveDirectory) {
+      setSaveDirectory(null);
+      return;
+    }
+
+    const showDirectoryPicker = (window as any).showDirectoryPicker as
+      | ShowDirectoryPicker
+      | undefined;
+    if (!showDirectoryPicker) return;
+
+    try {
+      setSaveDirectory(await showDirectoryPicker({ mode: 'readwrite' }));
+    } catch (err) {
+      console.warn('Folder selection cancelled or failed:', err);
+    }
+  };
+
   const getAspectRatioFromSelection = useCallback(
     (value: string): number => {
       switch (value) {
+        case TEXT.MODAL.ASPECT_RATIOS.FREE.VALUE:
+          return 0;
         case TEXT.MODAL.ASPECT_RATIOS.ORIGINAL.VALUE:
           return originalDimensions ? originalDimensions.width / originalDimensions.height : 0;
-        case TEXT.MODAL.ASPECT_RATIOS.SQUARE.VALUE:
-          return 1;
         default:
-          return 0;
+          return parseRatio(value);
       }
     },
     [originalDimensions]
@@ -572,8 +1450,9 @@ export const ImageCropperApp: React.FC = () => {
     ratio: number,
     originalDimensions: { width: number; height: number } | null
   ): string => {
-    if (ratio === 1) {
-      return TEXT.MODAL.ASPECT_RATIOS.SQUARE.VALUE;
+    const fixedRatio = findRatioSelection(ratio, customRatios);
+    if (fixedRatio) {
+      return fixedRatio;
     } else if (
       originalDimensions &&
       Math.abs(ratio - originalDimensions.width / originalDimensions.height) < 0.0001
@@ -583,6 +1462,34 @@ export const ImageCropperApp: React.FC = () => {
     return TEXT.MODAL.ASPECT_RATIOS.FREE.VALUE;
   };
 
+  // Stores the global crop along with the dimensions of the image it was drawn on
+  const updateGlobalCropSettings = useCallback(
+    (settings: CropSettings) => {
+      setGlobalCropSettings(settings);
+      setGlobalCropSource(originalDimensions);
+    },
+    [originalDimensions]
+  );
+
+  // Fits the global crop to an image of the given size using the chosen scaling
+  // Fixed ratios such as 1:1 are kept, free and original ratios follow the image
+  const getGlobalCropFor = (dimensions: Dimensions): CropSettings | null => {
+    if (!globalCropSettings) return null;
+
+    const selection = getSelectionFromAspectRatio(globalCropSettings.aspectRatio, globalCropSource);
+    const isFixedRatio =
+      selection !== TEXT.MODAL.ASPECT_RATIOS.FREE.VALUE &&
+      selection !== TEXT.MODAL.ASPECT_RATIOS.ORIGINAL.VALUE;
+
+    return mapGlobalCrop(
+      globalCropSettings,
+      globalCropSource,
+      dimensions,
+      globalCropScaling,
+      isFixedRatio ? globalCropSettings.aspectRatio : undefined
+    );
+  };
+
   const updateCropSettings = useCallback(
     (data: Cropper.Data) => {
       const cropper = cropperRef.current?.cropper;
@@ -602,21 +1509,47 @@ export const ImageCropperApp: React.FC = () => {
 
       setActiveCropSettings(displaySettings);
 
+      // Stored crops stay in image pixels, since batch crops and global mapping draw from them
+      const imageSettings: CropSettings = {
+        x: data.x,
+        y: data.y,
+        width: data.width,
+        height: data.height,
+        aspectRatio: data.width / data.height
+      };
+
       if (isPerImageCrop && currentImage) {
         setImages((prev) =>
           prev.map((img) =>
-            img.id === currentImage.id ? { ...img, cropSettings: displaySettings } : img
+            img.id === currentImage.id ? { ...img, cropSettings: imageSettings } : img
           )
         );
       } else {
-        setGlobalCropSettings(displaySettings);
+        updateGlobalCropSettings(imageSettings);
       }
     },
-    [currentImage, isPerImageCrop]
+    [currentImage, isPerImageCrop, updateGlobalCropSettings]
+  );
+
+  // Replaces the open image's regions
+  // Unlike the crop rectangle they are kept whether the modal is saved or cancelled
+  const updateRegions = useCallback(
+    (update: (regions: CropRegion[]) => CropRegion[]) => {
+      if (!currentImage) return;
+      setImages((prev) =>
+        prev.map((img) => {
+          if (img.id !== currentImage.id) return img;
+          const regions = update(img.regions || []);
+          return { ...img, regions: regions.length > 0 ? regions : undefined };
+        })
+      );
+    },
+    [currentImage]
   );
 
+  // Main-thread fallback for the worker pool; an <img> reports the upright, EXIF-oriented size
   const validateImage = useCallback(
-    (file: File): Promise<{ isValid: boolean; error?: 'too_small' | 'too_large' | 'corrupt' }> => {
+    (file: File): Promise<ValidationResult> => {
       return new Promise((resolve) => {
         try {
           const img = new window.Image();
@@ -633,11 +1566,11 @@ export const ImageCropperApp: React.FC = () => {
             URL.revokeObjectURL(objectUrl);
             removeUrlFromCleanup(objectUrl);
 
-            if (img.width < IMAGE_SIZE.MIN || img.height < IMAGE_SIZE.MIN) {
+            if (img.width < importLimits.minDimension || img.height < importLimits.minDimension) {
               resolve({ isValid: false, error: 'too_small' });
               return;
             }
-            if (img.width > IMAGE_SIZE.MAX || img.height > IMAGE_SIZE.MAX) {
+            if (img.width > importLimits.maxDimension || img.height > importLimits.maxDimension) {
               resolve({ isValid: false, error: 'too_large' });
               return;
             }
@@ -656,7 +1589,7 @@ export const ImageCropperApp: React.FC = () => {
               ctx.drawImage(img, 0, 0, 1, 1);
               ctx.getImageData(0, 0, 1, 1);
 
-              resolve({ isValid: true });
+              resolve({ isValid: true, dimensions: { width: img.width, height: img.height } });
             } catch (error) {
               console.error('Image validation failed:', error);
               resolve({ isValid: false, error: 'corrupt' });
@@ -677,7 +1610,7 @@ export const ImageCropperApp: React.FC = () => {
         }
       });
     },
-    []
+    [importLimits]
   );
 
   const processFiles = useCallback(
@@ -694,52 +1627,168 @@ export const ImageCropperApp: React.FC = () => {
       setIsProcessing(true);
 
       const messages: Array<ToastMessage> = [];
-      const validFiles: File[] = [];
+      const candidates: File[] = [];
+      const validFiles: Array<{
+        file: File;
+        contentHash: string;
+        perceptualHash?: string | null;
+        isNearDuplicate: boolean;
+        dimensions?: { width: number; height: number };
+      }> = [];
+      const { detectNearDuplicates } = importOptions;
 
       let invalidTypeCount = 0;
       let oversizedCount = 0;
+      let mimeMismatchCount = 0;
       let invalidDimensionsCount = 0;
       let duplicateCount = 0;
+      let nearDuplicateCount = 0;
+      let cancelledCount = 0;
 
       for (const file of files) {
-        if (!Object.keys(ACCEPTED_TYPES).includes(file.type)) {
+        // file.type is derived from the extension, so check it against the content
+        let detectedType: string | null = null;
+        try {
+          detectedType = await detectImageType(file);
+        } catch (error) {
+          console.warn('Failed to read file signature:', { name: file.name, error });
+        }
+
+        const check = checkDeclaredType(
+          file,
+          detectedType,
+          ACCEPTED_TYPES,
+          importOptions.acceptMismatchedTypes
+        );
+
+        if (check.status === 'invalid-type') {
           invalidTypeCount++;
           continue;
         }
 
-        const extension = getFileExtension(file.name);
-        const acceptedExtensions = ACCEPTED_TYPES[file.type];
-        if (!acceptedExtensions.includes(`.${extension}`)) {
-          invalidTypeCount++;
+        if (check.status === 'mime-mismatch') {
+          mimeMismatchCount++;
           continue;
         }
 
-        if (file.size > MAX_FILE_SIZE) {
+        if (file.size > toBytes(importLimits.maxFileSize)) {
           oversizedCount++;
           continue;
         }
 
-        try {
-          const validation = await validateImage(file);
-          if (!validation.isValid) {
+        candidates.push(check.file);
+      }
+
+      // Images restored from older sessions may not have been hashed yet
+      const knownImages = await Promise.all(
+        images.map((image) =>
+          ensureImageHashes(image, detectNearDuplicates).catch((error) => {
+            console.warn('Failed to hash existing image:', { name: image.file.name, error });
+            return image;
+          })
+        )
+      );
+      const hashedImages = new Map(
+        knownImages.filter((image, index) => image !== images[index]).map((img) => [img.id, img])
+      );
+      if (hashedImages.size > 0) {
+        setImages((prev) =>
+          prev.map((img) => {
+            const hashed = hashedImages.get(img.id);
+            return hashed
+              ? { ...img, contentHash: hashed.contentHash, perceptualHash: hashed.perceptualHash }
+              : img;
+          })
+        );
+      }
+
+      // Decode and check candidates in parallel, off the main thread where supported
+      const abortController = new AbortController();
+      importAbortRef.current = abortController;
+      setImportProgress({ done: 0, total: candidates.length });
+
+      const bounds = { minSize: importLimits.minDimension, maxSize: importLimits.maxDimension };
+      const useWorkers = isWorkerValidationSupported();
+      const poolSize = Math.min(MAX_POOL_SIZE, navigator.hardwareConcurrency || 2);
+      const pool = useWorkers ? createValidationPool(poolSize) : null;
+
+      try {
+        const results = await runWithConcurrency(
+          candidates,
+          pool ? poolSize : 1,
+          async (file) => {
+            try {
+              const validation = await (pool ? pool.validate(file, bounds) : validateImage(file));
+              if (!validation.isValid) return { validation };
+
+              const contentHash = await hashFile(file);
+              const perceptualHash = detectNearDuplicates
+                ? await computePerceptualHash(file).catch(() => null)
+                : undefined;
+              return { validation, contentHash, perceptualHash };
+            } catch (error) {
+              console.error('Rejected file - validation error:', {
+                name: file.name,
+                error
+              });
+              return { validation: { isValid: false } as ValidationResult };
+            }
+          },
+          {
+            signal: abortController.signal,
+            onProgress: (done) => setImportProgress({ done, total: candidates.length })
+          }
+        );
+
+        // Exact copies are rejected, near-duplicates are added but reported
+        const seenHashes = new Set(knownImages.map((image) => image.contentHash));
+        const perceptualHashes = knownImages
+          .map((image) => image.perceptualHash)
+          .filter((hash): hash is string => !!hash);
+
+        results.forEach((result, index) => {
+          if (!result || result.validation.error === 'cancelled') {
+            cancelledCount++;
+            return;
+          }
+
+          const { validation, contentHash, perceptualHash } = result;
+          if (!validation.isValid || !contentHash) {
             invalidDimensionsCount++;
-            continue;
+            return;
           }
 
-          if (existingFilenames.has(file.name)) {
+          if (seenHashes.has(contentHash)) {
             duplicateCount++;
-            continue;
+            return;
           }
-
-          validFiles.push(file);
-        } catch (error) {
-          console.error('Rejected file - validation error:', {
-            name: file.name,
-            error
+          seenHashes.add(contentHash);
+
+          const isSimilar =
+            !!perceptualHash &&
+            perceptualHashes.some((hash) => isNearDuplicate(hash, perceptualHash));
+          if (perceptualHash) perceptualHashes.push(perceptualHash);
+
+          validFiles.push({
+            file: candidates[index],
+            contentHash,
+            perceptualHash,
+            isNearDuplicate: isSimilar,
+            dimensions: validation.dimensions
           });
-          invalidDimensionsCount++;
-          continue;
-        }
+        });
+      } finally {
+        pool?.terminate();
+        importAbortRef.current = null;
+        setImportProgress(null);
+      }
+
+      if (cancelledCount > 0) {
+        messages.push({
+          status: 'info',
+          title: TEXT.TOASTS.IMPORT_CANCELLED.TITLE,
+          description: TEXT.TOASTS.IMPORT_CANCELLED.DESC(cancelledCount)
+        });
       }
 
       if (invalidTypeCount > 0) {
@@ -750,11 +1799,15 @@ export const ImageCropperApp: React.FC = () => {
         });
       }
 
+      if (mimeMismatchCount > 0) {
+        messages.push(createToastMessage('mime-mismatch', { count: mimeMismatchCount }));
+      }
+
       if (oversizedCount > 0) {
         messages.push({
           status: 'warning',
           title: TEXT.TOASTS.FILE_SIZE.TITLE,
-          description: TEXT.TOASTS.FILE_SIZE.DESC(oversizedCount)
+          description: TEXT.TOASTS.FILE_SIZE.DESC(oversizedCount, importLimits.maxFileSize)
         });
       }
 
@@ -762,7 +1815,11 @@ export const ImageCropperApp: React.FC = () => {
         messages.push({
           status: 'warning',
           title: TEXT.TOASTS.INVALID_DIMENSIONS.TITLE,
-          description: TEXT.TOASTS.INVALID_DIMENSIONS.DESC(invalidDimensionsCount)
+          description: TEXT.TOASTS.INVALID_DIMENSIONS.DESC(
+            invalidDimensionsCount,
+            importLimits.minDimension,
+            importLimits.maxDimension
+          )
         });
       }
 
@@ -774,32 +1831,80 @@ export const ImageCropperApp: React.FC = () => {
         });
       }
 
-      const remainingSlots = Math.max(0, 10 - images.length);
-      const filesToProcess = validFiles.slice(0, remainingSlots);
+      const remainingSlots = Math.max(0, importLimits.maxImages - images.length);
+      const filesWithinLimit = validFiles.slice(0, remainingSlots);
 
       if (validFiles.length > remainingSlots) {
         messages.push({
           status: 'warning',
           title: TEXT.TOASTS.LIMIT.TITLE,
-          description: TEXT.TOASTS.LIMIT.DESC(validFiles.length - remainingSlots)
+          description: TEXT.TOASTS.LIMIT.DESC(
+            validFiles.length - remainingSlots,
+            importLimits.maxImages
+          )
         });
       }
 
-      for (const file of filesToProcess) {
-        try {
-          const objectUrl = URL.createObjectURL(file);
-          addUrlForCleanup(objectUrl);
-          const newImage = {
-            id: `${file.name}-${Date.now()}`,
-            file,
-            url: objectUrl,
-            objectUrl: objectUrl,
-            cropped: false,
-            cropHistory: []
-          };
-          setImages((prev) => [...prev, newImage]);
-        } catch (error) {
-          console.error('Error creating object URL:', {
+      // Files past the batch size are skipped in order, like those past the image limit
+      const maxBatchBytes = toBytes(importLimits.maxBatchSize);
+      let batchBytes = images.reduce((total, image) => total + image.file.size, 0);
+      const filesToProcess = filesWithinLimit.filter((accepted) => {
+        if (batchBytes + accepted.file.size > maxBatchBytes) return false;
+        batchBytes += accepted.file.size;
+        return true;
+      });
+
+      if (filesToProcess.length < filesWithinLimit.length) {
+        messages.push({
+          status: 'warning',
+          title: TEXT.TOASTS.BATCH_SIZE.TITLE,
+          description: TEXT.TOASTS.BATCH_SIZE.DESC(
+            filesWithinLimit.length - filesToProcess.length,
+            importLimits.maxBatchSize
+          )
+        });
+      }
+
+      nearDuplicateCount = filesToProcess.filter((accepted) => accepted.isNearDuplicate).length;
+      if (nearDuplicateCount > 0) {
+        messages.push({
+          status: 'info',
+          title: TEXT.TOASTS.NEAR_DUPLICATES.TITLE,
+          description: TEXT.TOASTS.NEAR_DUPLICATES.DESC(nearDuplicateCount)
+        });
+      }
+
+      // Different files may share a name, so give each a unique one for the grid and outputs
+      const takenNames = new Set(images.map((img) => img.file.name.toLowerCase()));
+
+      for (const accepted of filesToProcess) {
+        const uniqueName = makeUniqueName(accepted.file.name, takenNames);
+        const file =
+          uniqueName === accepted.file.name
+            ? accepted.file
+            : new File([accepted.file], uniqueName, {
+                type: accepted.file.type,
+                lastModified: accepted.file.lastModified
+              });
+
+        try {
+          const objectUrl = URL.createObjectURL(file);
+          addUrlForCleanup(objectUrl);
+          const newImage: ImageData = {
+            id: `${file.name}-${Date.now()}`,
+            file,
+            url: objectUrl,
+            objectUrl: objectUrl,
+            cropped: false,
+            cropHistory: [],
+            dimensions: accepted.dimensions,
+            addedAt: Date.now(),
+            contentHash: accepted.contentHash,
+            perceptualHash: accepted.perceptualHash
+          };
+          setImages((prev) => [...prev, newImage]);
+        } catch (error) {
+          console.error('Error creating object URL:', {
             name: file.name,
             error
           });
@@ -809,21 +1914,42 @@ export const ImageCropperApp: React.FC = () => {
       setIsProcessing(false);
       messages.forEach((msg) => toast(msg));
     },
-    [images, toast, isProcessing, validateImage, existingFilenames]
+    [images, toast, isProcessing, validateImage, importLimits, importOptions, createToastMessage]
   );
 
+  // Stops starting new validations; files already checked are still added
+  const handleCancelImport = useCallback(() => {
+    importAbortRef.current?.abort();
+  }, []);
+
   const handleFileInputClick = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
+  const handleFolderInputClick = useCallback(() => {
+    folderInputRef.current?.click();
+  }, []);
+
   const handlePageClick = useCallback(() => {
     toast.closeAll();
   }, [toast]);
 
+  // Bound to both the page and the window, so skip the drop if it was already handled
   const handleDrop = useCallback(
-    (e: React.DragEvent) => {
+    (e: React.DragEvent | DragEvent) => {
+      if (e.defaultPrevented || !e.dataTransfer) return;
+      e.preventDefault();
+      getDroppedFiles(e.dataTransfer).then(processFiles);
+    },
+    [processFiles]
+  );
+
+  const handlePaste = useCallback(
+    (e: ClipboardEvent) => {
+      if (!e.clipboardData) return;
+      const files = getPastedImages(e.clipboardData);
+      if (files.length === 0) return;
       e.preventDefault();
-      const files = Array.from(e.dataTransfer.files);
       processFiles(files);
     },
     [processFiles]
@@ -834,17 +1960,411 @@ export const ImageCropperApp: React.FC = () => {
     processFiles(files);
   };
 
+  // Switching to manual starts from the order currently shown, hidden images included
+  const handleSortChange = (sort: GridSortMode) => {
+    if (sort === 'manual' && !isManualOrder) {
+      setImages((prev) => orderImages(prev, { ...gridOrder, filter: 'all' }));
+    }
+    setGridOrder((prev) => ({ ...prev, sort }));
+  };
+
+  // Cards can only be dragged in manual order; the id travels in the drag data
+  const handleCardDragStart = (e: React.DragEvent, id: string) => {
+    if (!isManualOrder) return;
+    e.dataTransfer.setData('text/plain', id);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggedImageId(id);
+  };
+
+  const handleCardDragOver = (e: React.DragEvent) => {
+    if (!draggedImageId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+  };
+
+  // Prevents the default so the page-level handler does not treat it as a file drop
+  const handleCardDrop = (e: React.DragEvent, targetId: string) => {
+    if (!draggedImageId) return;
+    e.preventDefault();
+    const fromId = draggedImageId;
+    setDraggedImageId(null);
+    setImages((prev) => moveImage(prev, fromId, targetId));
+  };
+
+  // Previews show the saved crop rectangle; images without one show the original, as do
+  // images whose size is not known yet
+  const getCardPreview = (image: ImageData, mode: CropPreviewMode): CropPreview | undefined =>
+    image.cropSettings && image.dimensions
+      ? { crop: image.cropSettings, size: image.dimensions, transform: image.transform, mode }
+      : undefined;
+
+  // Suggests a face-framed crop for the selected images, or all shown ones without a selection
+  // Uses the aspect ratio last picked in the crop modal; images without faces keep their crop
+  // All suggestions are one undo step, and each can be adjusted in the modal like any saved crop
+  const handleAutoSuggestAll = async () => {
+    const targets = selectedImages.length > 0 ? selectedImages : visibleImages;
+    if (isProcessing || targets.length === 0) return;
+
+    toast.closeAll();
+    setIsProcessing(true);
+    const changes: GridChange['images'] = [];
+    let noFacesCount = 0;
+    let failedCount = 0;
+
+    for (let i = 0; i < targets.length; i++) {
+      const image = targets[i];
+      try {
+        const source = await loadImageElement(image.url);
+        const size = roundSize(
+          getTransformedSize({ width: source.width, height: source.height }, image.transform)
+        );
+        const aspectRatio =
+          selectedAspectRatio === TEXT.MODAL.ASPECT_RATIOS.ORIGINAL.VALUE
+            ? size.width / size.height
+            : parseRatio(selectedAspectRatio);
+        const faces = await detectFaces(source, image.transform);
+        const suggestion = suggestFaceCrop(faces, size, aspectRatio);
+        if (!suggestion) {
+          noFacesCount++;
+          continue;
+        }
+        changes.push({
+          id: image.id,
+          before: image,
+          after: { ...image, cropSettings: suggestion, canvasData: undefined }
+        });
+      } catch (error) {
+        console.error('Face detection failed:', { name: image.file.name, error });
+        failedCount++;
+      }
+    }
+
+    if (changes.length > 0) {
+      recordGridChange({ images: changes });
+      const suggested = new Map(changes.map((change) => [change.id, change.after]));
+      setImages((prev) =>
+        prev.map((img) => {
+          const after = suggested.get(img.id);
+          return after ? { ...img, cropSettings: after.cropSettings, canvasData: undefined } : img;
+        })
+      );
+    }
+    setIsProcessing(false);
+
+    const messages: Array<ToastMessage> = [];
+    if (changes.length > 0) {
+      messages.push({
+        status: 'success',
+        title: TEXT.TOASTS.FACES_SUGGESTED.TITLE,
+        description: TEXT.TOASTS.FACES_SUGGESTED.DESC(changes.length)
+      });
+    }
+
+    if (noFacesCount > 0) {
+      messages.push(createToastMessage('no-faces', { count: noFacesCount }));
+    }
+
+    if (failedCount > 0) {
+      messages.push({
+        status: 'error',
+        title: TEXT.TOASTS.BATCH_FAILED.TITLE,
+        description: TEXT.TOASTS.BATCH_FAILED.DESC(failedCount)
+      });
+    }
+
+    messages.forEach((msg) => toast(msg));
+  };
+
+  // Removes one history entry, as an undoable grid change
+  const handleHistoryRemove = (image: ImageData, index: number) => {
+    const after = {
+      ...image,
+      cropHistory: image.cropHistory.filter((_, i) => i !== index)
+    };
+    recordGridChange({ images: [{ id: image.id, before: image, after }] });
+    setImages((prev) =>
+      prev.map((img) => (img.id === image.id ? { ...img, cropHistory: after.cropHistory } : img))
+    );
+  };
+
+  // Downloads the crop history of every image, in grid order
+  const handleHistoryExport = (format: keyof typeof HISTORY_EXPORT) => {
+    const { FILENAME, TYPE } = HISTORY_EXPORT[format];
+    const ordered = orderImages(images, { ...gridOrder, filter: 'all' });
+    const contents = format === 'CSV' ? exportHistoryCsv(ordered) : exportHistoryJson(ordered);
+    downloadFile(new File([contents], FILENAME, { type: TYPE }));
+  };
+
+  // Shift-click selects the range from the last clicked card, in grid order
+  const handleSelectToggle = (id: string) => {
+    const isRange = selectionShiftRef.current;
+    selectionShiftRef.current = false;
+    const isSelecting = !selectedIds.includes(id);
+    setSelectedIds((prev) =>
+      isRange
+        ? selectRange(
+            prev,
+            visibleImages.map((image) => image.id),
+            selectionAnchorRef.current,
+            id,
+            isSelecting
+          )
+        : toggleSelection(prev, id)
+    );
+    selectionAnchorRef.current = id;
+  };
+
+  const handleSelectAll = () => {
+    setSelectedIds(visibleImages.map((image) => image.id));
+  };
+
+  const handleSelectionClear = () => {
+    setSelectedIds([]);
+    selectionAnchorRef.current = null;
+  };
+
+  // Removes all selected images as one undo step
+  const handleDeleteSelected = () => {
+    if (selectedImages.length === 0) return;
+    const ids = new Set(selectedImages.map((image) => image.id));
+    recordGridChange({
+      images: selectedImages.map((image) => ({ id: image.id, before: image, after: null }))
+    });
+    setImages((prev) =>
+      prev.filter((img) => {
+        if (!ids.has(img.id)) return true;
+        URL.revokeObjectURL(img.url);
+        removeUrlFromCleanup(img.url);
+        releaseThumbnail(img.id);
+        return false;
+      })
+    );
+    handleSelectionClear();
+  };
+
+  // Replaces the crop state of the selected images as one undo step
+  // Images for which edit returns null are left alone; returns the number changed
+  const editSelectedImages = (edit: (image: ImageData) => ImageData | null): number => {
+    const changes: GridChange['images'] = [];
+    selectedImages.forEach((image) => {
+      const after = edit(image);
+      if (after) {
+        changes.push({ id: image.id, before: image, after });
+      }
+    });
+    if (changes.length === 0) return 0;
+
+    recordGridChange({ images: changes });
+    const edited = new Map(changes.map((change) => [change.id, change.after]));
+    setImages((prev) =>
+      prev.map((img) => {
+        const after = edited.get(img.id);
+        return after ? { ...img, ...getCropState(after) } : img;
+      })
+    );
+    return changes.length;
+  };
+
+  // Forgets the crop rectangle, zoom and cropped flag; history, transform and regions stay
+  const handleResetSelected = () => {
+    editSelectedImages((image) =>
+      image.cropSettings || image.canvasData || image.cropped
+        ? { ...image, cropSettings: undefined, canvasData: undefined, cropped: false }
+        : null
+    );
+  };
+
+  // Copies one image's crop rectangle onto the other selected images
+  // Different sizes are mapped with the global crop scaling, and the zoom is reset to fit
+  const handleCopyCropToSelected = (sourceId: string) => {
+    const source = images.find((img) => img.id === sourceId);
+    if (!source?.cropSettings) return;
+    const crop = source.cropSettings;
+    const from = source.dimensions || null;
+    const selection = getSelectionFromAspectRatio(crop.aspectRatio, from);
+    const isFixedRatio =
+      selection !== TEXT.MODAL.ASPECT_RATIOS.FREE.VALUE &&
+      selection !== TEXT.MODAL.ASPECT_RATIOS.ORIGINAL.VALUE;
+
+    const count = editSelectedImages((image) =>
+      image.id === source.id
+        ? null
+        : {
+            ...image,
+            cropSettings: image.dimensions
+              ? mapGlobalCrop(
+                  crop,
+                  from,
+                  image.dimensions,
+                  globalCropScaling,
+                  isFixedRatio ? crop.aspectRatio : undefined
+                )
+              : crop,
+            canvasData: undefined
+          }
+    );
+    if (count > 0) {
+      createToastMessage('crop-copied', { count, filename: source.file.name }, true);
+    }
+  };
+
+  const getGlobalCropState = (): GlobalCropState => ({
+    settings: globalCropSettings,
+    source: globalCropSource,
+    isPerImageCrop,
+    regionTemplate
+  });
+
+  const recordGridChange = (change: GridChange) => {
+    const indexed = change.images.map((entry) => ({
+      ...entry,
+      index: images.findIndex((img) => img.id === entry.id)
+    }));
+    setGridHistory((prev) => pushUndo(prev, { ...change, images: indexed }));
+  };
+
+  // Moves the grid to one side of a recorded change; returns false if it was not applied
+  // Only the affected images are touched: removed ones get their URL revoked as on delete,
+  // returning ones a new URL from the kept file at their old position, and others just
+  // their crop state. Nothing changes if the returning images would exceed the image limit
+  const applyGridChange = (change: GridChange, side: 'before' | 'after'): boolean => {
+    const returning = change.images.filter(
+      (entry) => entry[side] && !images.some((img) => img.id === entry.id)
+    );
+    const removedCount = change.images.filter(
+      (entry) => !entry[side] && images.some((img) => img.id === entry.id)
+    ).length;
+    if (images.length - removedCount + returning.length > importLimits.maxImages) {
+      createToastMessage(
+        'undo-limit',
+        { count: returning.length, limit: importLimits.maxImages },
+        true
+      );
+      return false;
+    }
+
+    let next = images;
+    change.images.forEach((entry) => {
+      const target = entry[side];
+      const current = next.find((img) => img.id === entry.id);
+
+      if (!target) {
+        if (!current) return;
+        URL.revokeObjectURL(current.url);
+        removeUrlFromCleanup(current.url);
+        releaseThumbnail(current.id);
+        next = next.filter((img) => img.id !== entry.id);
+      } else if (current) {
+        next = next.map((img) => (img.id === entry.id ? { ...img, ...getCropState(target) } : img));
+      }
+    });
+    next = insertImages(
+      next,
+      returning.map((entry) => {
+        const target = entry[side] as ImageData;
+        const objectUrl = URL.createObjectURL(target.file);
+        addUrlForCleanup(objectUrl);
+        return {
+          image: { ...target, url: objectUrl, objectUrl },
+          index: entry.index !== undefined && entry.index >= 0 ? entry.index : next.length
+        };
+      })
+    );
+    setImages(next);
+
+    if (change.global) {
+      const state = change.global[side];
+      setGlobalCropSettings(state.settings);
+      setGlobalCropSource(state.source);
+      setIsPerImageCrop(state.isPerImageCrop);
+      setRegionTemplate(state.regionTemplate);
+    }
+    return true;
+  };
+
+  const handleGridUndo = () => {
+    const result = undo(gridHistory);
+    if (isProcessing || !result) return;
+    if (applyGridChange(result.entry, 'before')) {
+      setGridHistory(result.stack);
+    }
+  };
+
+  const handleGridRedo = () => {
+    const result = redo(gridHistory);
+    if (isProcessing || !result) return;
+    if (applyGridChange(result.entry, 'after')) {
+      setGridHistory(result.stack);
+    }
+  };
+
+  // Grid undo shortcuts; inside the crop modal the same keys undo crop box changes
+  const handleGridKeyDown = (e: KeyboardEvent) => {
+    const shortcut = getUndoShortcut(e);
+    if (!shortcut || isEditingTarget(e.target)) return;
+    e.preventDefault();
+    if (shortcut === 'undo') {
+      handleGridUndo();
+    } else {
+      handleGridRedo();
+    }
+  };
+
+  gridKeyDownRef.current = handleGridKeyDown;
+
+  // The deleted image is kept in the undo history, so its file can be restored
   const handleDelete = (id: string) => {
+    const image = images.find((img) => img.id === id);
+    if (image) {
+      recordGridChange({ images: [{ id, before: image, after: null }] });
+    }
     setImages((prev) => {
       const imageToDelete = prev.find((img) => img.id === id);
       if (imageToDelete?.url) {
         URL.revokeObjectURL(imageToDelete.url);
         removeUrlFromCleanup(imageToDelete.url);
       }
+      releaseThumbnail(id);
       return prev.filter((img) => img.id !== id);
     });
   };
 
+  // Applies one import limit, clamped to its safe range, and shows the clamped value
+  const handleLimitChange = (key: keyof ImportLimits, input: HTMLInputElement) => {
+    const limits = normalizeLimits({ ...importLimits, [key]: Number(input.value) });
+    input.value = String(limits[key]);
+    setImportLimits(limits);
+  };
+
+  // Removes every image and forgets the stored session
+  const handleClearSession = () => {
+    recordGridChange({
+      images: images.map((image) => ({ id: image.id, before: image, after: null })),
+      global: {
+        before: getGlobalCropState(),
+        after: {
+          settings: null,
+          source: null,
+          isPerImageCrop: true,
+          regionTemplate: null
+        }
+      }
+    });
+    images.forEach((image) => {
+      URL.revokeObjectURL(image.url);
+      removeUrlFromCleanup(image.url);
+    });
+    releaseAllThumbnails();
+    setImages([]);
+    setGlobalCropSettings(null);
+    setGlobalCropSource(null);
+    setIsPerImageCrop(true);
+    setSelectedAspectRatio(TEXT.MODAL.ASPECT_RATIOS.FREE.VALUE);
+    setRegionTemplate(null);
+    storageWarningShownRef.current = false;
+    clearSession().catch((error) => console.warn('Failed to clear session:', error));
+  };
+
   const handleCropMemoryChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
     setIsPerImageCrop(e.target.value === 'per-image');
   }, []);
@@ -880,26 +2400,18 @@ export const ImageCropperApp: React.FC = () => {
         );
       }
 
-      const newData = { ...currentData };
-
-      switch (key) {
-        case 'x':
-          newData.x = Math.max(0, Math.min(canvasData.naturalWidth - currentData.width, num));
-          break;
-        case 'y':
-          newData.y = Math.max(0, Math.min(canvasData.naturalHeight - currentData.height, num));
-          break;
-        case 'width':
-          newData.width = Math.max(1, Math.min(canvasData.naturalWidth - currentData.x, num));
-          break;
-        case 'height':
-          newData.height = Math.max(1, Math.min(canvasData.naturalHeight - currentData.y, num));
-          break;
-      }
+      const newData =
+        key === 'aspectRatio'
+          ? currentData
+          : clampCropValue(key, num, currentData, {
+              width: canvasData.naturalWidth,
+              height: canvasData.naturalHeight
+            });
 
       cropper.setData(newData);
       const finalData = cropper.getData();
       updateCropSettings(finalData);
+      cropEditRef.current?.();
     },
     [updateCropSettings]
   );
@@ -952,8 +2464,27 @@ export const ImageCropperApp: React.FC = () => {
       }
 
       updateCropSettings(data);
+
+      const canvasData = cropper.getCanvasData();
+      setCropperView({
+        left: canvasData.left,
+        top: canvasData.top,
+        scale: canvasData.width / canvasData.naturalWidth
+      });
+
+      const regionId = activeRegionIdRef.current;
+      if (regionId) {
+        const { x, y, width, height } = data;
+        updateRegions((regions) =>
+          regions.map((region) =>
+            region.id === regionId
+              ? { ...region, crop: { ...region.crop, x, y, width, height } }
+              : region
+          )
+        );
+      }
     },
-    [isClosing, updateCropSettings]
+    [isClosing, updateCropSettings, updateRegions]
   );
 
   // Initializes the cropper with saved or default settings
@@ -967,6 +2498,10 @@ export const ImageCropperApp: React.FC = () => {
 
     if (initialCropSettings) {
       requestAnimationFrame(() => {
+        if (!isIdentityTransform(activeTransform)) {
+          applyTransformToCropper(cropper, activeTransform);
+        }
+
         const aspectRatio = getAspectRatioFromSelection(selectedAspectRatio);
         cropper.setAspectRatio(aspectRatio);
 
@@ -977,6 +2512,10 @@ export const ImageCropperApp: React.FC = () => {
         cropper.setData(initialCropSettings);
         const data = cropper.getData();
         updateCropSettings(data);
+        cropUndoRef.current = {
+          stack: createUndoStack(),
+          current: { crop: data, aspect: selectedAspectRatio }
+        };
       });
     }
   }, [
@@ -985,13 +2524,46 @@ export const ImageCropperApp: React.FC = () => {
     updateCropSettings,
     getAspectRatioFromSelection,
     selectedAspectRatio,
-    currentImage
+    currentImage,
+    activeTransform
   ]);
 
   // Converts aspect ratio selection to numeric value and updates cropper
+  // The Custom option opens the W:H inputs instead of changing the ratio
   const handleAspectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const value = e.target.value;
+    if (e.target.value === TEXT.MODAL.ASPECT_RATIOS.CUSTOM.VALUE) {
+      setCustomRatioInput({ width: '', height: '' });
+      return;
+    }
+    applyAspectSelection(e.target.value);
+  };
+
+  const handleCustomRatioApply = () => {
+    if (!customRatioInput) return;
+    const value = formatRatio(Number(customRatioInput.width), Number(customRatioInput.height));
+    if (!value) return;
+    rememberCustomRatio(value);
+    applyAspectSelection(value);
+  };
+
+  // Turns e.g. 4:5 into 5:4, keeping the crop's position
+  // A swapped ratio missing from the lists is shown for this session only, not saved
+  const handleSwapOrientation = () => {
+    applyAspectSelection(swapRatio(selectedAspectRatio));
+  };
+
+  // Saves a ratio typed in the W:H fields so it is offered again in later sessions
+  const rememberCustomRatio = (value: string) => {
+    if (parseRatio(value) && !isKnownRatio(value, customRatios)) {
+      setCustomRatios((prev) => [...prev, value]);
+    }
+  };
+
+  // Selects an aspect ratio and reshapes the current crop box to it
+  const applyAspectSelection = (value: string) => {
+    setCustomRatioInput(null);
     setSelectedAspectRatio(value);
+    setActiveRegionAspect(value);
 
     const aspectRatio = getAspectRatioFromSelection(value);
 
@@ -1024,16 +2596,234 @@ export const ImageCropperApp: React.FC = () => {
           )
         );
       } else {
-        setGlobalCropSettings(newCropSettings);
+        updateGlobalCropSettings(newCropSettings);
       }
+      recordCropEdit(value);
+    }
+  };
+
+  const selectRegion = (id: string | null) => {
+    activeRegionIdRef.current = id;
+    setActiveRegionId(id);
+  };
+
+  // Keeps the edited region's ratio in step with the aspect ratio select
+  const setActiveRegionAspect = (value: string) => {
+    const regionId = activeRegionIdRef.current;
+    if (!regionId) return;
+    const aspectRatio = getAspectRatioFromSelection(value);
+    updateRegions((regions) =>
+      regions.map((region) =>
+        region.id === regionId
+          ? { ...region, aspect: value, crop: { ...region.crop, aspectRatio } }
+          : region
+      )
+    );
+  };
+
+  // Adds a region from the current crop box, which then edits the new region
+  const handleRegionAdd = () => {
+    const cropper = cropperRef.current?.cropper;
+    if (!cropper) return;
+
+    const { x, y, width, height } = cropper.getData();
+    const region: CropRegion = {
+      id: createRegionId(),
+      name: getNextRegionName(currentRegions),
+      crop: { x, y, width, height, aspectRatio: getAspectRatioFromSelection(selectedAspectRatio) },
+      aspect: selectedAspectRatio
+    };
+    updateRegions((regions) => [...regions, region]);
+    selectRegion(region.id);
+  };
+
+  // Loads a region into the crop box; selecting the edited region again detaches the box
+  const handleRegionSelect = (region: CropRegion) => {
+    if (region.id === activeRegionId) {
+      selectRegion(null);
+      return;
+    }
+    const cropper = cropperRef.current?.cropper;
+    if (!cropper) return;
+
+    // Select first so the crop events below update the new region, not the previous one
+    selectRegion(region.id);
+    setSelectedAspectRatio(region.aspect);
+    setCustomRatioInput(null);
+    cropper.setAspectRatio(region.crop.aspectRatio);
+    cropper.setData(region.crop);
+    // Undo stays within one region rather than moving the box back into another
+    resetCropUndo(region.aspect);
+  };
+
+  const handleRegionChange = (id: string, changes: Partial<CropRegion>) => {
+    updateRegions((regions) =>
+      regions.map((region) => (region.id === id ? { ...region, ...changes } : region))
+    );
+  };
+
+  // Sets one side of a region's output size; an empty side follows the crop's aspect ratio
+  const handleRegionOutputSizeChange = (
+    region: CropRegion,
+    key: 'width' | 'height',
+    value: string
+  ) => {
+    const num = Math.round(Number(value));
+    const size = { width: 0, height: 0, ...region.outputSize };
+    size[key] = num > 0 ? Math.min(OUTPUT_SIZE.MAX, num) : 0;
+    handleRegionChange(region.id, { outputSize: size.width || size.height ? size : undefined });
+  };
+
+  const handleRegionDelete = (id: string) => {
+    if (id === activeRegionId) selectRegion(null);
+    updateRegions((regions) => regions.filter((region) => region.id !== id));
+  };
+
+  const handleRegionTemplateSave = () => {
+    if (currentRegions.length === 0 || !originalDimensions) return;
+    setRegionTemplate({ regions: currentRegions, source: originalDimensions });
+  };
+
+  // Replaces the open image's regions with the template, scaled to this image
+  const handleRegionTemplateApply = () => {
+    if (!regionTemplate || !originalDimensions) return;
+    selectRegion(null);
+    updateRegions(() => applyRegionTemplate(regionTemplate, originalDimensions));
+  };
+
+  // Rotates, flips or straightens the image in the open cropper
+  // Crop coordinates and the Original size then refer to the transformed bounds
+  const handleTransformChange = (changes: Partial<ImageTransform>) => {
+    const cropper = cropperRef.current?.cropper;
+    if (!cropper) return;
+
+    const next = { ...activeTransform, ...changes };
+    next.rotate = ((next.rotate % 360) + 360) % 360;
+    setActiveTransform(next);
+    applyTransformToCropper(cropper, next);
+
+    const canvasData = cropper.getCanvasData();
+    setOriginalDimensions(
+      roundSize({ width: canvasData.naturalWidth, height: canvasData.naturalHeight })
+    );
+    // Earlier boxes were measured on the image before the transform
+    resetCropUndo();
+  };
+
+  // Frames the faces found in the open image at the selected aspect ratio
+  // The box goes through the normal crop update, so it stays editable and can be undone
+  const handleAutoCrop = async () => {
+    const cropper = cropperRef.current?.cropper;
+    if (!cropper || !currentImage || isDetectingFaces) return;
+
+    setIsDetectingFaces(true);
+    try {
+      const source = await loadImageElement(currentImage.url);
+      const faces = await detectFaces(source, activeTransform);
+      // The modal may have moved on to another image while detecting
+      if (cropperRef.current?.cropper !== cropper) return;
+      const canvasData = cropper.getCanvasData();
+      const suggestion = suggestFaceCrop(
+        faces,
+        { width: canvasData.naturalWidth, height: canvasData.naturalHeight },
+        getAspectRatioFromSelection(selectedAspectRatio)
+      );
+      if (!suggestion) {
+        createToastMessage('no-faces', { count: 1 }, true);
+        return;
+      }
+      cropper.setData(suggestion);
+      updateCropSettings(cropper.getData());
+      recordCropEdit();
+    } catch (error) {
+      console.warn('Face detection failed:', error);
+      createToastMessage('load-error', undefined, true);
+    } finally {
+      setIsDetectingFaces(false);
+    }
+  };
+
+  // Applies a preset to the open cropper
+  // The rectangle goes through the same clamping as numeric input, size first,
+  // so a preset larger than the image is fitted to it
+  const handlePresetSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const name = e.target.value;
+    setSelectedPresetName(name);
+
+    const preset = presets.find((p) => p.name === name);
+    const cropper = cropperRef.current?.cropper;
+    if (!preset || !cropper) return;
+
+    setSelectedAspectRatio(preset.aspect);
+    setCustomRatioInput(null);
+    setActiveRegionAspect(preset.aspect);
+    cropper.setAspectRatio(getAspectRatioFromSelection(preset.aspect));
+
+    const canvasData = cropper.getCanvasData();
+    const natural = { width: canvasData.naturalWidth, height: canvasData.naturalHeight };
+    const keys: Array<keyof CropDimensions> = ['width', 'height', 'x', 'y'];
+    const newData = keys.reduce(
+      (data, key) => clampCropValue(key, preset.settings[key], data, natural),
+      { ...cropper.getData(), x: 0, y: 0 }
+    );
+
+    cropper.setData(newData);
+    updateCropSettings(cropper.getData());
+    recordCropEdit(preset.aspect);
+  };
+
+  // Saves the current crop rectangle and aspect ratio under the entered name
+  const handlePresetSave = () => {
+    const name = presetName.trim();
+    const cropper = cropperRef.current?.cropper;
+    if (!name || !cropper) return;
+
+    const preset: CropPreset = {
+      name,
+      settings: {
+        ...roundCropDimensions(cropper.getData()),
+        aspectRatio: getAspectRatioFromSelection(selectedAspectRatio)
+      },
+      aspect: selectedAspectRatio
+    };
+    setPresets((prev) => mergePresets(prev, [preset]));
+    setSelectedPresetName(name);
+    setPresetName('');
+  };
+
+  const handlePresetExport = () => {
+    downloadFile(
+      new File([serializePresets(presets)], TEXT.PRESETS.FILENAME, { type: 'application/json' })
+    );
+  };
+
+  const handlePresetImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresets(await file.text());
+      setPresets((prev) => mergePresets(prev, imported));
+      createToastMessage('presets-imported', { count: imported.length }, true);
+    } catch (error) {
+      console.warn('Preset import failed:', error);
+      createToastMessage('presets-invalid', undefined, true);
     }
   };
 
   // Opens crop modal with settings based on mode:
   // Per-Image: image settings -> default
   // Global: global settings -> default
-  const openCropModal = (image: ImageData) => {
-    setCurrentImage(image);
+  // Current image is set together with its crop settings once loaded, so a cropper
+  // remounted for the next image never sees the previous image's settings
+  // With restore, the modal opens on a history entry's rectangle, ratio and transform
+  // instead of the saved crop; the zoom is reset since the saved one may not fit it
+  const openCropModal = (image: ImageData, restore?: CropHistoryEntry) => {
+    setSelectedPresetName('');
+    setCustomRatioInput(null);
+    selectRegion(null);
+    setCropperView(null);
     const img = new window.Image();
 
     const cleanup = () => {
@@ -1053,7 +2843,15 @@ export const ImageCropperApp: React.FC = () => {
     };
 
     img.onload = () => {
-      const dimensions = { width: img.width, height: img.height };
+      const target = restore
+        ? { ...image, canvasData: undefined, transform: restore.transform }
+        : image;
+      setCurrentImage(target);
+      const transform = target.transform || IDENTITY_TRANSFORM;
+      setActiveTransform(transform);
+      const dimensions = roundSize(
+        getTransformedSize({ width: img.width, height: img.height }, transform)
+      );
       setOriginalDimensions(dimensions);
 
       // Default centered 50% crop
@@ -1065,9 +2863,14 @@ export const ImageCropperApp: React.FC = () => {
         aspectRatio: 0
       };
 
-      const initialSettings = isPerImageCrop
-        ? image.cropSettings || defaultSettings
-        : globalCropSettings || defaultSettings;
+      const initialSettings = restore
+        ? {
+            ...roundCropDimensions(restore),
+            aspectRatio: restore.aspectRatio || 0
+          }
+        : isPerImageCrop
+          ? image.cropSettings || defaultSettings
+          : getGlobalCropFor(dimensions) || defaultSettings;
 
       setInitialCropSettings(initialSettings);
       setActiveCropSettings(initialSettings);
@@ -1085,19 +2888,69 @@ export const ImageCropperApp: React.FC = () => {
     img.src = image.url;
   };
 
+  openCropModalRef.current = openCropModal;
+
+  // Returns the image before (-1) or after (1) the open one in grid order
+  const getAdjacentImage = (offset: number): ImageData | null => {
+    if (!currentImage) return null;
+    const index = visibleImages.findIndex((img) => img.id === currentImage.id);
+    return index === -1 ? null : visibleImages[index + offset] || null;
+  };
+
+  // Draws the open crop for saving
+  // Exact output sizes are drawn from the source, trimmed to the target shape,
+  // since Cropper.js would keep the crop box's own aspect ratio
+  const renderModalCrop = async (
+    cropper: ReactCropperElement['cropper'],
+    image: ImageData,
+    outputType: string
+  ): Promise<HTMLCanvasElement> => {
+    const data = cropper.getData();
+    const fillColor = getFillColor(outputSettings, outputType);
+    if (outputSettings.resize.mode !== 'exact') {
+      return cropper.getCroppedCanvas({
+        ...getCroppedCanvasOptions(data, outputSettings.resize),
+        fillColor
+      });
+    }
+    return renderCropToCanvas(
+      await loadImageElement(image.url),
+      fitCropToOutput(data, outputSettings.resize),
+      fillColor,
+      getOutputSize(data, outputSettings.resize),
+      isIdentityTransform(activeTransform) ? undefined : activeTransform
+    );
+  };
+
   // Handles crop & save operation using modern File System API if available
-  const handleCrop = async () => {
+  // With nextImage, that image is opened afterwards instead of closing the modal
+  const handleCrop = async (nextImage?: ImageData | null) => {
     const cropper = cropperRef.current?.cropper;
+    if (cropper && currentImage && currentRegions.length > 0) {
+      await handleRegionsCrop(cropper, nextImage);
+      return;
+    }
     if (cropper && currentImage) {
-      const canvas = cropper.getCroppedCanvas();
+      const outputType = resolveOutputType(outputSettings, currentImage.file.type);
+      let canvas: HTMLCanvasElement;
+      try {
+        canvas = await renderModalCrop(cropper, currentImage, outputType);
+      } catch (error) {
+        console.error('Failed to render the crop:', error);
+        createToastMessage('save-error', undefined, true);
+        return;
+      }
       let blob: Blob | null = null;
       try {
-        blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve));
+        blob = await encodeCanvas(canvas, outputSettings, outputType);
         if (!blob) return;
+        blob = await applyMetadata(blob, currentImage.file, outputSettings.metadata);
 
-        const croppedFile = new File([blob], `cropped-${currentImage.file.name}`, {
-          type: blob.type
-        });
+        const croppedFile = createCroppedFile(
+          blob,
+          currentImage.file.name,
+          getOutputPrefix(currentImage)
+        );
         const data = cropper.getData();
         const canvasData = cropper.getCanvasData();
 
@@ -1110,138 +2963,620 @@ export const ImageCropperApp: React.FC = () => {
         };
 
         try {
-          const showSaveFilePicker = (window as any).showSaveFilePicker as
-            | ShowSaveFilePicker
-            | undefined;
-
-          const newImageState = {
-            ...currentImage,
-            cropped: true,
-            cropSettings: newCropSettings,
-            canvasData: canvasData,
-            cropHistory: [
-              ...currentImage.cropHistory,
-              {
-                x: Math.round(data.x),
-                y: Math.round(data.y),
-                width: Math.round(data.width),
-                height: Math.round(data.height)
-              }
-            ]
-          };
-
-          if (showSaveFilePicker) {
-            const saveUrl = URL.createObjectURL(croppedFile);
-            addUrlForCleanup(saveUrl);
-
-            setImages((prev) =>
-              prev.map((img) => (img.id === currentImage.id ? newImageState : img))
-            );
-
-            setGlobalCropSettings(newCropSettings);
-
-            URL.revokeObjectURL(saveUrl);
-            removeUrlFromCleanup(saveUrl);
-          } else {
-            const downloadUrl = URL.createObjectURL(croppedFile);
-            addUrlForCleanup(downloadUrl);
-            const link = document.createElement('a');
-            link.href = downloadUrl;
-            link.download = croppedFile.name;
-            link.click();
+          const historyEntry = createHistoryEntry(
+            newCropSettings,
+            croppedFile,
+            { width: canvas.width, height: canvas.height },
+            isIdentityTransform(activeTransform) ? undefined : activeTransform
+          );
 
-            setImages((prev) =>
-              prev.map((img) => (img.id === currentImage.id ? newImageState : img))
-            );
+          await saveFile(croppedFile, true);
 
-            setGlobalCropSettings(newCropSettings);
+          setImages((prev) =>
+            prev.map((img) =>
+              img.id === currentImage.id
+                ? {
+                    ...img,
+                    cropped: true,
+                    cropSettings: newCropSettings,
+                    canvasData: canvasData,
+                    transform: activeTransform,
+                    cropHistory: [...img.cropHistory, historyEntry]
+                  }
+                : img
+            )
+          );
 
-            URL.revokeObjectURL(downloadUrl);
-            removeUrlFromCleanup(downloadUrl);
-          }
+          updateGlobalCropSettings(newCropSettings);
         } catch (err) {
           console.error('Error or cancel occurred:', err);
-          setGlobalCropSettings(newCropSettings);
+          if (!isAbortError(err)) {
+            createToastMessage('save-error', undefined, true);
+          }
+          updateGlobalCropSettings(newCropSettings);
           setImages((prev) =>
             prev.map((img) =>
               img.id === currentImage.id
                 ? {
                     ...img,
                     cropSettings: newCropSettings,
-                    canvasData: canvasData
+                    canvasData: canvasData,
+                    transform: activeTransform
                   }
                 : img
             )
           );
           return;
         } finally {
-          onClose();
+          if (nextImage) {
+            setPendingImageId(nextImage.id);
+          } else {
+            onClose();
+          }
         }
       } finally {
         if (canvas) {
-          canvas.width = 0;
-          canvas.height = 0;
+          releaseCanvas(canvas);
         }
         blob = null;
       }
     }
   };
 
+  // Renders, encodes and names one file per region of an image
+  // The region name is added to the filename, kept unique within the image
+  const renderRegionFiles = async (
+    image: ImageData,
+    source: HTMLImageElement,
+    regions: CropRegion[],
+    transform?: ImageTransform
+  ): Promise<Array<{ file: File; region: CropRegion; outputSize: Dimensions }>> => {
+    const outputType = resolveOutputType(outputSettings, image.file.type);
+    const names = new Set<string>();
+    const files: Array<{ file: File; region: CropRegion; outputSize: Dimensions }> = [];
+
+    for (let i = 0; i < regions.length; i++) {
+      const region = regions[i];
+      const resize = getRegionResize(region, outputSettings.resize);
+      const outputSize = getOutputSize(region.crop, resize);
+      const canvas = renderCropToCanvas(
+        source,
+        fitCropToOutput(region.crop, resize),
+        getFillColor(outputSettings, outputType),
+        outputSize,
+        transform
+      );
+      try {
+        const encoded = await encodeCanvas(canvas, outputSettings, outputType);
+        if (!encoded) {
+          throw new Error(`Failed to encode region ${region.name}`);
+        }
+        const blob = await applyMetadata(encoded, image.file, outputSettings.metadata);
+        const croppedFile = createCroppedFile(
+          blob,
+          addRegionSuffix(image.file.name, region.name),
+          getOutputPrefix(image)
+        );
+        const name = makeUniqueName(croppedFile.name, names);
+        files.push({
+          file: new File([croppedFile], name, { type: blob.type }),
+          region,
+          outputSize
+        });
+      } finally {
+        releaseCanvas(canvas);
+      }
+    }
+
+    return files;
+  };
+
+  // Crop & save for an image with regions, writing every region in one action
+  // The save picker is skipped since it would ask once per region
+  const handleRegionsCrop = async (
+    cropper: ReactCropperElement['cropper'],
+    nextImage?: ImageData | null
+  ) => {
+    if (!currentImage) return;
+
+    const data = cropper.getData();
+    const canvasData = cropper.getCanvasData();
+    const newCropSettings: CropSettings = {
+      x: data.x,
+      y: data.y,
+      width: data.width,
+      height: data.height,
+      aspectRatio: activeCropSettings.aspectRatio
+    };
+    const transform = isIdentityTransform(activeTransform) ? undefined : activeTransform;
+    const history: CropHistoryEntry[] = [];
+
+    try {
+      const source = await loadImageElement(currentImage.url);
+      const files = await renderRegionFiles(currentImage, source, currentRegions, transform);
+      for (let i = 0; i < files.length; i++) {
+        await saveFile(files[i].file, false);
+        history.push(
+          createHistoryEntry(
+            files[i].region.crop,
+            files[i].file,
+            files[i].outputSize,
+            transform,
+            files[i].region.name
+          )
+        );
+      }
+    } catch (err) {
+      console.error('Error while saving regions:', err);
+      if (!isAbortError(err)) {
+        createToastMessage('save-error', undefined, true);
+      }
+    } finally {
+      updateGlobalCropSettings(newCropSettings);
+      setImages((prev) =>
+        prev.map((img) =>
+          img.id === currentImage.id
+            ? {
+                ...img,
+                cropped: img.cropped || history.length > 0,
+                cropSettings: newCropSettings,
+                canvasData: canvasData,
+                transform: activeTransform,
+                cropHistory: [...img.cropHistory, ...history]
+              }
+            : img
+        )
+      );
+      if (nextImage) {
+        setPendingImageId(nextImage.id);
+      } else {
+        onClose();
+      }
+    }
+  };
+
+  // Crops every image shown in the grid, in grid order, without opening the modal
+  // Images hidden by the filter are left alone
+  // Images with regions, or covered by the region template, get one output per region
+  // Per-Image: each image's own settings, Global: the shared settings
+  // Images without settings or with an out-of-bounds rectangle are skipped and reported
+  // With asZip, outputs are collected into one archive with a manifest instead of separate downloads
+  // A selection limits the run to those images
+  const handleCropAll = async (asZip = false, selection?: ImageData[]) => {
+    const targets = selection || visibleImages;
+    if (isProcessing || targets.length === 0) return;
+
+    toast.closeAll();
+    setIsProcessing(true);
+
+    const messages: Array<ToastMessage> = [];
+    let croppedCount = 0;
+    let noCropCount = 0;
+    let outOfBoundsCount = 0;
+    let failedCount = 0;
+    const zipEntries: ZipEntry[] = [];
+    const changes: GridChange['images'] = [];
+    // Output names can still collide, e.g. photo.png and photo.jpg both encoded as JPEG
+    const zipNames = new Set([ZIP.MANIFEST.toLowerCase()]);
+    const manifest: Array<{
+      source: string;
+      output: string;
+      region?: string;
+      crop: CropDimensions;
+      outputWidth: number;
+      outputHeight: number;
+      transform?: ImageTransform;
+    }> = [];
+
+    setBatchProgress({ done: 0, total: targets.length });
+
+    for (let i = 0; i < targets.length; i++) {
+      const image = targets[i];
+      const savedSettings = isPerImageCrop ? image.cropSettings : globalCropSettings;
+      const hasRegions = !!image.regions?.length || !!regionTemplate;
+
+      if (!savedSettings && !hasRegions) {
+        noCropCount++;
+        setBatchProgress({ done: i + 1, total: targets.length });
+        continue;
+      }
+
+      let canvas: HTMLCanvasElement | null = null;
+      try {
+        const source = await loadImageElement(image.url);
+        const transform = isIdentityTransform(image.transform) ? undefined : image.transform;
+        const dimensions = roundSize(
+          getTransformedSize(
+            { width: source.naturalWidth, height: source.naturalHeight },
+            transform
+          )
+        );
+        const regions = image.regions?.length
+          ? image.regions
+          : regionTemplate
+            ? applyRegionTemplate(regionTemplate, dimensions)
+            : null;
+        const settings = savedSettings
+          ? isPerImageCrop
+            ? savedSettings
+            : getGlobalCropFor(dimensions)
+          : null;
+        const crops = regions ? regions.map((region) => region.crop) : settings ? [settings] : [];
+
+        if (crops.length === 0 || !crops.every((crop) => isCropInBounds(crop, dimensions))) {
+          outOfBoundsCount++;
+          continue;
+        }
+
+        const outputs: Array<{
+          file: File;
+          crop: CropSettings;
+          outputSize: Dimensions;
+          region?: string;
+        }> = [];
+
+        if (regions) {
+          const files = await renderRegionFiles(image, source, regions, transform);
+          files.forEach(({ file, region, outputSize }) =>
+            outputs.push({ file, crop: region.crop, outputSize, region: region.name })
+          );
+        } else if (settings) {
+          const outputType = resolveOutputType(outputSettings, image.file.type);
+          const outputSize = getOutputSize(settings, outputSettings.resize);
+          canvas = renderCropToCanvas(
+            source,
+            fitCropToOutput(settings, outputSettings.resize),
+            getFillColor(outputSettings, outputType),
+            outputSize,
+            transform
+          );
+          const encoded = await encodeCanvas(canvas, outputSettings, outputType);
+          if (!encoded) {
+            failedCount++;
+            continue;
+          }
+          const blob = await applyMetadata(encoded, image.file, outputSettings.metadata);
+          outputs.push({
+            file: createCroppedFile(blob, image.file.name, getOutputPrefix(image)),
+            crop: settings,
+            outputSize
+          });
+        }
+
+        const history: CropHistoryEntry[] = [];
+        for (let j = 0; j < outputs.length; j++) {
+          const output = outputs[j];
+          let savedName = output.file.name;
+          if (asZip) {
+            const entryName = makeUniqueName(output.file.name, zipNames);
+            savedName = entryName;
+            zipEntries.push({ name: entryName, data: output.file });
+            manifest.push({
+              source: image.file.name,
+              output: entryName,
+              region: output.region,
+              crop: roundCropDimensions(output.crop),
+              outputWidth: output.outputSize.width,
+              outputHeight: output.outputSize.height,
+              transform
+            });
+          } else {
+            await saveFile(output.file, false);
+          }
+          history.push(
+            createHistoryEntry(
+              output.crop,
+              { name: savedName, type: output.file.type },
+              output.outputSize,
+              transform,
+              output.region
+            )
+          );
+        }
+
+        const cropState = {
+          cropped: true,
+          cropSettings: settings || image.cropSettings,
+          cropHistory: [...image.cropHistory, ...history]
+        };
+        setImages((prev) =>
+          prev.map((img) => (img.id === image.id ? { ...img, ...cropState } : img))
+        );
+        changes.push({ id: image.id, before: image, after: { ...image, ...cropState } });
+        croppedCount++;
+      } catch (error) {
+        console.error('Batch crop failed:', {
+          name: image.file.name,
+          error
+        });
+        failedCount++;
+      } finally {
+        if (canvas) {
+          releaseCanvas(canvas);
+        }
+        setBatchProgress({ done: i + 1, total: targets.length });
+      }
+    }
+
+    if (asZip && zipEntries.length > 0) {
+      setBatchProgress({ done: targets.length, total: targets.length, isZipping: true });
+      try {
+        const manifestBlob = new Blob([JSON.stringify(manifest, null, 2)], {
+          type: 'application/json'
+        });
+        const archive = await createZip([
+          ...zipEntries,
+          { name: ZIP.MANIFEST, data: manifestBlob }
+        ]);
+        await saveFile(new File([archive], ZIP.FILENAME, { type: archive.type }), true);
+      } catch (error) {
+        console.error('ZIP creation failed:', error);
+        if (!isAbortError(error)) {
+          messages.push({
+            status: 'error',
+            title: TEXT.TOASTS.ZIP_ERROR.TITLE,
+            description: TEXT.TOASTS.ZIP_ERROR.DESC
+          });
+        }
+      }
+    }
+
+    if (croppedCount > 0) {
+      messages.push({
+        status: 'success',
+        title: TEXT.TOASTS.BATCH_CROPPED.TITLE,
+        description: TEXT.TOASTS.BATCH_CROPPED.DESC(croppedCount)
+      });
+    }
+
+    if (noCropCount > 0) {
+      messages.push({
+        status: 'warning',
+        title: TEXT.TOASTS.BATCH_NO_CROP.TITLE,
+        description: TEXT.TOASTS.BATCH_NO_CROP.DESC(noCropCount)
+      });
+    }
+
+    if (outOfBoundsCount > 0) {
+      messages.push({
+        status: 'warning',
+        title: TEXT.TOASTS.BATCH_OUT_OF_BOUNDS.TITLE,
+        description: TEXT.TOASTS.BATCH_OUT_OF_BOUNDS.DESC(outOfBoundsCount)
+      });
+    }
+
+    if (failedCount > 0) {
+      messages.push({
+        status: 'error',
+        title: TEXT.TOASTS.BATCH_FAILED.TITLE,
+        description: TEXT.TOASTS.BATCH_FAILED.DESC(failedCount)
+      });
+    }
+
+    if (changes.length > 0) {
+      recordGridChange({ images: changes });
+    }
+
+    setBatchProgress(null);
+    setIsProcessing(false);
+    messages.forEach((msg) => toast(msg));
+  };
+
   // Preserves current crop settings without saving the cropped image
   const handleCancel = () => {
     setIsClosing(true);
     const cropper = cropperRef.current?.cropper;
     if (cropper && currentImage && initialCropSettings) {
-      const currentData = cropper.getData();
-      const currentCanvasData = cropper.getCanvasData();
+      applyCancelToCurrentImage(cropper);
 
-      if (saveOnCancel) {
-        const aspectRatio = getAspectRatioFromSelection(selectedAspectRatio);
-        const newCropSettings: CropSettings = {
-          x: currentData.x,
-          y: currentData.y,
-          width: currentData.width,
-          height: currentData.height,
-          aspectRatio
-        };
+      if (!saveOnCancel) {
+        setSaveOnCancel(false);
+        setSelectedAspectRatio('free');
+      }
 
-        const newImageState = {
-          ...currentImage,
-          cropSettings: newCropSettings,
-          canvasData: currentCanvasData
-        };
+      cropper.destroy();
+    }
+    onClose();
+  };
 
-        if (isPerImageCrop) {
-          setImages((prev) =>
-            prev.map((img) => (img.id === currentImage.id ? newImageState : img))
-          );
-        } else {
-          setGlobalCropSettings(newCropSettings);
-        }
-      } else if (isPerImageCrop) {
+  // Moves to the previous or next image without closing the modal
+  // The current image is left as Cancel would leave it, including Save on Cancel
+  const handleNavigate = (offset: number) => {
+    const target = getAdjacentImage(offset);
+    if (!target) return;
+
+    const cropper = cropperRef.current?.cropper;
+    if (cropper && currentImage && initialCropSettings) {
+      applyCancelToCurrentImage(cropper);
+    }
+    setPendingImageId(target.id);
+  };
+
+  // Keeps the open crop when Save on Cancel is checked, otherwise discards it (per-image mode)
+  const applyCancelToCurrentImage = (cropper: ReactCropperElement['cropper']) => {
+    if (!currentImage) return;
+    const currentData = cropper.getData();
+    const currentCanvasData = cropper.getCanvasData();
+
+    if (saveOnCancel) {
+      const aspectRatio = getAspectRatioFromSelection(selectedAspectRatio);
+      const newCropSettings: CropSettings = {
+        x: currentData.x,
+        y: currentData.y,
+        width: currentData.width,
+        height: currentData.height,
+        aspectRatio
+      };
+
+      if (isPerImageCrop) {
         setImages((prev) =>
           prev.map((img) =>
             img.id === currentImage.id
               ? {
                   ...img,
-                  cropSettings: undefined,
-                  canvasData: undefined
+                  cropSettings: newCropSettings,
+                  canvasData: currentCanvasData,
+                  transform: activeTransform
                 }
               : img
           )
         );
+      } else {
+        // The transform is always per image, only the rectangle is shared
+        updateGlobalCropSettings(newCropSettings);
+        setImages((prev) =>
+          prev.map((img) =>
+            img.id === currentImage.id ? { ...img, transform: activeTransform } : img
+          )
+        );
+      }
+    } else if (isPerImageCrop) {
+      setImages((prev) =>
+        prev.map((img) =>
+          img.id === currentImage.id
+            ? {
+                ...img,
+                cropSettings: undefined,
+                canvasData: undefined
+              }
+            : img
+        )
+      );
+    }
+  };
+
+  // Starts a fresh crop box history from the box as it is now
+  const resetCropUndo = (aspect = selectedAspectRatio) => {
+    const cropper = cropperRef.current?.cropper;
+    cropUndoRef.current = {
+      stack: createUndoStack(),
+      current: cropper ? { crop: cropper.getData(), aspect } : null
+    };
+  };
+
+  // Records the crop box after an edit: drag, nudge, numeric input, aspect ratio or preset
+  const recordCropEdit = (aspect = selectedAspectRatio) => {
+    const cropper = cropperRef.current?.cropper;
+    if (!cropper) return;
+
+    const after: CropSnapshot = { crop: cropper.getData(), aspect };
+    const { stack, current } = cropUndoRef.current;
+    if (current && current.aspect === after.aspect && isSameCrop(current.crop, after.crop)) {
+      return;
+    }
+    cropUndoRef.current = {
+      stack: current ? pushUndo(stack, { before: current, after }) : stack,
+      current: after
+    };
+  };
+
+  cropEditRef.current = recordCropEdit;
+
+  const applyCropSnapshot = (snapshot: CropSnapshot) => {
+    const cropper = cropperRef.current?.cropper;
+    if (!cropper) return;
+
+    setSelectedAspectRatio(snapshot.aspect);
+    setCustomRatioInput(null);
+    setActiveRegionAspect(snapshot.aspect);
+    cropper.setAspectRatio(getAspectRatioFromSelection(snapshot.aspect));
+    cropper.setData(snapshot.crop);
+    cropUndoRef.current.current = snapshot;
+  };
+
+  const handleCropUndo = () => {
+    const result = undo(cropUndoRef.current.stack);
+    if (!result) return;
+    cropUndoRef.current.stack = result.stack;
+    applyCropSnapshot(result.entry.before);
+  };
+
+  const handleCropRedo = () => {
+    const result = redo(cropUndoRef.current.stack);
+    if (!result) return;
+    cropUndoRef.current.stack = result.stack;
+    applyCropSnapshot(result.entry.after);
+  };
+
+  // Modal keyboard shortcuts, see TEXT.SHORTCUTS
+  // Typing in inputs and moving sliders keep their own keys; Esc always cancels
+  const handleModalKeyDown = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    const isEditing = isEditingTarget(target);
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      handleCancel();
+      return;
+    }
+
+    const undoShortcut = getUndoShortcut(e);
+    if (undoShortcut && !isEditing) {
+      e.preventDefault();
+      if (undoShortcut === 'undo') {
+        handleCropUndo();
+      } else {
+        handleCropRedo();
       }
+      return;
+    }
+    if (isEditing || e.altKey || e.ctrlKey || e.metaKey) return;
 
-      if (!saveOnCancel) {
-        setSaveOnCancel(false);
-        setSelectedAspectRatio('free');
-      }
+    const cropper = cropperRef.current?.cropper;
+    const step = e.shiftKey ? 10 : 1;
+    const nudges: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step]
+    };
 
-      cropper.destroy();
+    if (nudges[e.key]) {
+      e.preventDefault();
+      if (!cropper) return;
+      const data = cropper.getData();
+      cropper.setData({ x: data.x + nudges[e.key][0], y: data.y + nudges[e.key][1] });
+      recordCropEdit();
+    } else if (e.key === 'Enter') {
+      // Let focused buttons and checkboxes handle Enter themselves
+      if (target && ['BUTTON', 'A'].includes(target.tagName)) return;
+      e.preventDefault();
+      handleCrop(getAdjacentImage(1));
+    } else if (e.key === 'PageDown' || e.key === 'j' || e.key === 'J') {
+      e.preventDefault();
+      handleNavigate(1);
+    } else if (e.key === 'PageUp' || e.key === 'k' || e.key === 'K') {
+      e.preventDefault();
+      handleNavigate(-1);
+    } else if (e.key === '?') {
+      e.preventDefault();
+      setIsShortcutHelpOpen((open) => !open);
     }
-    onClose();
   };
 
+  modalKeyDownRef.current = handleModalKeyDown;
+
+  // One listener at a time: the modal's while it is open, the grid's otherwise
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) =>
+      isOpen ? modalKeyDownRef.current?.(e) : gridKeyDownRef.current?.(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) setIsShortcutHelpOpen(false);
+  }, [isOpen]);
+
+  // Opens the image queued by keyboard navigation, after the previous image's
+  // crop and any global settings have been committed to state
+  useEffect(() => {
+    if (!pendingImageId) return;
+    setPendingImageId(null);
+    const image = images.find((img) => img.id === pendingImageId);
+    if (image) openCropModalRef.current?.(image);
+  }, [pendingImageId, images]);
+
   const inputProps = useCallback(
     (key: keyof CropSettings) => ({
       size: 'sm' as const,
@@ -1287,15 +3622,149 @@ export const ImageCropperApp: React.FC = () => {
     };
   }, []);
 
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
+
+  useEffect(() => {
+    saveLimits(importLimits);
+  }, [importLimits]);
+
+  useEffect(() => {
+    saveImportOptions(importOptions);
+  }, [importOptions]);
+
+  useEffect(() => {
+    saveCustomRatios(customRatios);
+  }, [customRatios]);
+
+  // Restores the previous session, recreating object URLs from the stored files
+  useEffect(() => {
+    let cancelled = false;
+
+    loadSession()
+      .then(({ state, images: restored }) => {
+        if (cancelled) return;
+
+        if (state) {
+          setGlobalCropSettings(state.globalCropSettings);
+          setGlobalCropSource(state.globalCropSource || null);
+          setGlobalCropScaling(state.globalCropScaling || 'absolute');
+          setIsPerImageCrop(state.isPerImageCrop);
+          setSelectedAspectRatio(state.selectedAspectRatio);
+          setRegionTemplate(state.regionTemplate || null);
+          setGridOrder(state.gridOrder || DEFAULT_GRID_ORDER);
+        }
+
+        if (restored.length > 0) {
+          setImages(
+            restored.map((image) => {
+              const objectUrl = URL.createObjectURL(image.file);
+              addUrlForCleanup(objectUrl);
+              return { ...image, url: objectUrl, objectUrl };
+            })
+          );
+          createToastMessage('session-restored', { count: restored.length }, true);
+        }
+      })
+      .catch((error) => console.warn('Failed to restore session:', error))
+      .finally(() => {
+        if (!cancelled) setIsSessionLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [createToastMessage]);
+
+  // Sessions saved before image sizes were recorded are measured once in a worker, so crop
+  // previews never decode a full-resolution source on the main thread
+  useEffect(() => {
+    if (!isWorkerValidationSupported()) return;
+    const missing = images.filter(
+      (image) => !image.dimensions && !measuredIdsRef.current.has(image.id)
+    );
+    if (missing.length === 0) return;
+    missing.forEach((image) => measuredIdsRef.current.add(image.id));
+
+    const pool = createValidationPool(1);
+    const bounds = { minSize: 0, maxSize: Infinity };
+    runWithConcurrency(missing, 1, (image) => pool.validate(image.file, bounds))
+      .then((results) => {
+        const sizes = new Map<string, { width: number; height: number }>();
+        results.forEach((result, index) => {
+          if (result?.dimensions) sizes.set(missing[index].id, result.dimensions);
+        });
+        if (sizes.size === 0) return;
+        setImages((prev) =>
+          prev.map((img) => {
+            const dimensions = sizes.get(img.id);
+            return dimensions && !img.dimensions ? { ...img, dimensions } : img;
+          })
+        );
+      })
+      .finally(() => pool.terminate());
+  }, [images]);
+
+  // Saves images and crop state shortly after they change, then checks storage usage
+  useEffect(() => {
+    if (!isSessionLoaded) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        await Promise.all([
+          saveImages(images),
+          saveSessionState({
+            globalCropSettings,
+            globalCropSource,
+            globalCropScaling,
+            isPerImageCrop,
+            selectedAspectRatio,
+            regionTemplate,
+            gridOrder
+          })
+        ]);
+
+        const usage = await getStorageUsage();
+        if (usage !== null && usage >= STORAGE_WARNING_THRESHOLD) {
+          if (!storageWarningShownRef.current) {
+            storageWarningShownRef.current = true;
+            createToastMessage('storage-quota', { count: Math.round(usage * 100) }, true);
+          }
+        } else {
+          storageWarningShownRef.current = false;
+        }
+      } catch (error) {
+        console.error('Failed to save session:', error);
+        createToastMessage('session-error', undefined, true);
+      }
+    }, TIMING.SESSION_SAVE);
+
+    return () => clearTimeout(timeout);
+  }, [
+    images,
+    globalCropSettings,
+    globalCropSource,
+    globalCropScaling,
+    isPerImageCrop,
+    selectedAspectRatio,
+    regionTemplate,
+    gridOrder,
+    isSessionLoaded,
+    createToastMessage
+  ]);
+
   useEffect(() => {
     try {
       const preventDefault = (e: Event) => e.preventDefault();
       window.addEventListener('dragover', preventDefault);
-      window.addEventListener('drop', handleDrop as any);
+      window.addEventListener('drop', handleDrop);
+      document.addEventListener('paste', handlePaste);
       return () => {
         try {
           window.removeEventListener('dragover', preventDefault);
-          window.removeEventListener('drop', handleDrop as any);
+          window.removeEventListener('drop', handleDrop);
+          document.removeEventListener('paste', handlePaste);
         } catch (error) {
           console.warn('Error removing event listeners:', error);
         }
@@ -1303,7 +3772,7 @@ export const ImageCropperApp: React.FC = () => {
     } catch (error) {
       console.warn('Error setting up drag and drop:', error);
     }
-  }, [handleDrop]);
+  }, [handleDrop, handlePaste]);
 
   useEffect(() => {
     if (!isOpen) {
@@ -1387,6 +3856,119 @@ export const ImageCropperApp: React.FC = () => {
                 <option value="global">{TEXT.CROP_MEMORY.OPTIONS.GLOBAL}</option>
               </Select>
             </FormControl>
+            {!isPerImageCrop && (
+              <FormControl display="flex" alignItems="center" w="auto" minW="max-content" h="32px">
+                <FormLabel
+                  htmlFor="global-crop-scaling"
+                  mb="0"
+                  whiteSpace="nowrap"
+                  lineHeight="32px"
+                  h="32px"
+                >
+                  {TEXT.CROP_MEMORY.SCALING_LABEL}
+                </FormLabel>
+                <Select
+                  id="global-crop-scaling"
+                  size="sm"
+                  width="170px"
+                  value={globalCropScaling}
+                  onChange={(e) => setGlobalCropScaling(e.target.value as GlobalCropScaling)}
+                  h="32px"
+                >
+                  <option value="absolute">{TEXT.CROP_MEMORY.SCALING.ABSOLUTE}</option>
+                  <option value="relative">{TEXT.CROP_MEMORY.SCALING.RELATIVE}</option>
+                  <option value="top-left">{TEXT.CROP_MEMORY.SCALING.TOP_LEFT}</option>
+                  <option value="top-right">{TEXT.CROP_MEMORY.SCALING.TOP_RIGHT}</option>
+                  <option value="bottom-left">{TEXT.CROP_MEMORY.SCALING.BOTTOM_LEFT}</option>
+                  <option value="bottom-right">{TEXT.CROP_MEMORY.SCALING.BOTTOM_RIGHT}</option>
+                  <option value="center">{TEXT.CROP_MEMORY.SCALING.CENTER}</option>
+                </Select>
+              </FormControl>
+            )}
+            <HStack spacing={1}>
+              <Button
+                size="sm"
+                h="32px"
+                variant="ghost"
+                title={TEXT.BUTTONS.UNDO_TITLE}
+                onClick={handleGridUndo}
+                isDisabled={isProcessing || gridHistory.past.length === 0}
+              >
+                {TEXT.BUTTONS.UNDO}
+              </Button>
+              <Button
+                size="sm"
+                h="32px"
+                variant="ghost"
+                title={TEXT.BUTTONS.REDO_TITLE}
+                onClick={handleGridRedo}
+                isDisabled={isProcessing || gridHistory.future.length === 0}
+              >
+                {TEXT.BUTTONS.REDO}
+              </Button>
+            </HStack>
+            <Button size="sm" h="32px" onClick={handleFolderInputClick} isDisabled={isProcessing}>
+              {TEXT.BUTTONS.ADD_FOLDER}
+            </Button>
+            <Popover placement="bottom-end" strategy="fixed">
+              <PopoverTrigger>
+                <Button size="sm" h="32px" isDisabled={isProcessing}>
+                  {TEXT.LIMITS.BUTTON}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent width="260px">
+                <PopoverArrow />
+                <PopoverBody p={3}>
+                  <VStack align="stretch" spacing={2}>
+                    {(Object.keys(TEXT.LIMITS.FIELDS) as Array<keyof ImportLimits>).map((key) => (
+                      <FormControl key={key} display="flex" alignItems="center">
+                        <FormLabel fontSize="sm" mb={0} mr={2} flex="1" whiteSpace="nowrap">
+                          {TEXT.LIMITS.FIELDS[key]}
+                        </FormLabel>
+                        <Input
+                          // Remount on external changes so the uncontrolled value stays in sync
+                          key={importLimits[key]}
+                          size="sm"
+                          w="90px"
+                          type="number"
+                          min={LIMIT_BOUNDS[key].min}
+                          max={LIMIT_BOUNDS[key].max}
+                          defaultValue={importLimits[key]}
+                          onBlur={(e) => handleLimitChange(key, e.target)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleLimitChange(key, e.currentTarget);
+                          }}
+                        />
+                      </FormControl>
+                    ))}
+                    <Checkbox
+                      size="sm"
+                      isChecked={importOptions.detectNearDuplicates}
+                      onChange={(e) =>
+                        setImportOptions((prev) => ({
+                          ...prev,
+                          detectNearDuplicates: e.target.checked
+                        }))
+                      }
+                    >
+                      {TEXT.LIMITS.NEAR_DUPLICATES}
+                    </Checkbox>
+                    <Checkbox
+                      size="sm"
+                      isChecked={importOptions.acceptMismatchedTypes}
+                      onChange={(e) =>
+                        setImportOptions((prev) => ({
+                          ...prev,
+                          acceptMismatchedTypes: e.target.checked
+                        }))
+                      }
+                    >
+                      {TEXT.LIMITS.ACCEPT_MISMATCHED}
+                    </Checkbox>
+                  </VStack>
+                </PopoverBody>
+              </PopoverContent>
+            </Popover>
           </Flex>
           <Box
             border="2px dashed"
@@ -1398,8 +3980,400 @@ export const ImageCropperApp: React.FC = () => {
             _hover={{ borderColor: 'gray.400' }}
             onClick={handleFileInputClick}
           >
-            <Text>{TEXT.UPLOAD.PROMPT}</Text>
+            <Text>{TEXT.UPLOAD.PROMPT(importLimits.maxImages)}</Text>
           </Box>
+          {images.length > 0 && (
+            <Flex gap={2} justifyContent="flex-end">
+              <Button
+                size="sm"
+                colorScheme="blue"
+                onClick={() => handleCropAll()}
+                isDisabled={isProcessing}
+              >
+                {TEXT.BUTTONS.CROP_ALL}
+              </Button>
+              <Button size="sm" onClick={() => handleCropAll(true)} isDisabled={isProcessing}>
+                {TEXT.BUTTONS.DOWNLOAD_ZIP}
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleAutoSuggestAll}
+                isDisabled={isProcessing || !isPerImageCrop}
+                title={
+                  isPerImageCrop
+                    ? TEXT.BUTTONS.AUTO_SUGGEST_TITLE
+                    : TEXT.BUTTONS.AUTO_SUGGEST_GLOBAL_TITLE
+                }
+              >
+                {TEXT.BUTTONS.AUTO_SUGGEST}
+              </Button>
+              <Select
+                size="sm"
+                width="auto"
+                value=""
+                placeholder={TEXT.CROP_HISTORY.EXPORT}
+                onChange={(e) => handleHistoryExport(e.target.value as keyof typeof HISTORY_EXPORT)}
+                isDisabled={!images.some((image) => image.cropHistory.length > 0)}
+              >
+                {(Object.keys(HISTORY_EXPORT) as Array<keyof typeof HISTORY_EXPORT>).map(
+                  (format) => (
+                    <option key={format} value={format}>
+                      {TEXT.CROP_HISTORY.EXPORT_FORMATS[format]}
+                    </option>
+                  )
+                )}
+              </Select>
+              <Popover placement="bottom-end" strategy="fixed">
+                <PopoverTrigger>
+                  <Button size="sm" isDisabled={isProcessing}>
+                    {TEXT.BUTTONS.OUTPUT}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent width="260px">
+                  <PopoverArrow />
+                  <PopoverBody p={3}>
+                    <VStack align="stretch" spacing={3}>
+                      <FormControl display="flex" alignItems="center">
+                        <FormLabel fontSize="sm" mb={0} mr={2} whiteSpace="nowrap">
+                          {TEXT.OUTPUT.FORMAT_LABEL}
+                        </FormLabel>
+                        <Select
+                          size="sm"
+                          value={outputSettings.format}
+                          onChange={(e) =>
+                            setOutputSettings((prev) => ({
+                              ...prev,
+                              format: e.target.value as OutputFormat
+                            }))
+                          }
+                        >
+                          <option value="original">{TEXT.OUTPUT.FORMATS.ORIGINAL}</option>
+                          <option value="image/jpeg">{TEXT.OUTPUT.FORMATS.JPEG}</option>
+                          <option value="image/png">{TEXT.OUTPUT.FORMATS.PNG}</option>
+                          <option value="image/webp">{TEXT.OUTPUT.FORMATS.WEBP}</option>
+                        </Select>
+                      </FormControl>
+                      {(outputSettings.format === 'original' ||
+                        LOSSY_TYPES.includes(outputSettings.format)) && (
+                        <FormControl>
+                          <FormLabel fontSize="sm" mb={1}>
+                            {TEXT.OUTPUT.QUALITY_LABEL(outputSettings.quality)}
+                          </FormLabel>
+                          <Slider
+                            min={0.1}
+                            max={1}
+                            step={0.01}
+                            value={outputSettings.quality}
+                            onChange={(quality) =>
+                              setOutputSettings((prev) => ({ ...prev, quality }))
+                            }
+                          >
+                            <SliderTrack>
+                              <SliderFilledTrack />
+                            </SliderTrack>
+                            <SliderThumb />
+                          </Slider>
+                        </FormControl>
+                      )}
+                      <FormControl display="flex" alignItems="center">
+                        <FormLabel fontSize="sm" mb={0} mr={2} whiteSpace="nowrap">
+                          {TEXT.OUTPUT.RESIZE_LABEL}
+                        </FormLabel>
+                        <Select
+                          size="sm"
+                          value={outputSettings.resize.mode}
+                          onChange={(e) => handleResizeChange('mode', e.target.value as ResizeMode)}
+                        >
+                          <option value="none">{TEXT.OUTPUT.RESIZE_MODES.NONE}</option>
+                          <option value="exact">{TEXT.OUTPUT.RESIZE_MODES.EXACT}</option>
+                          <option value="max-edge">{TEXT.OUTPUT.RESIZE_MODES.MAX_EDGE}</option>
+                          <option value="scale">{TEXT.OUTPUT.RESIZE_MODES.SCALE}</option>
+                        </Select>
+                      </FormControl>
+                      {outputSettings.resize.mode === 'exact' && (
+                        <HStack spacing={2}>
+                          <FormControl display="flex" alignItems="center">
+                            <FormLabel fontSize="sm" mb={0} mr={2}>
+                              {TEXT.OUTPUT.WIDTH_LABEL}
+                            </FormLabel>
+                            <Input
+                              size="sm"
+                              type="number"
+                              min={OUTPUT_SIZE.MIN}
+                              max={OUTPUT_SIZE.MAX}
+                              value={outputSettings.resize.width}
+                              onChange={(e) => handleResizeChange('width', e.target.value)}
+                            />
+                          </FormControl>
+                          <FormControl display="flex" alignItems="center">
+                            <FormLabel fontSize="sm" mb={0} mr={2}>
+                              {TEXT.OUTPUT.HEIGHT_LABEL}
+                            </FormLabel>
+                            <Input
+                              size="sm"
+                              type="number"
+                              min={OUTPUT_SIZE.MIN}
+                              max={OUTPUT_SIZE.MAX}
+                              value={outputSettings.resize.height}
+                              onChange={(e) => handleResizeChange('height', e.target.value)}
+                            />
+                          </FormControl>
+                        </HStack>
+                      )}
+                      {outputSettings.resize.mode === 'exact' && (
+                        <Text fontSize="xs" color="gray.400">
+                          {TEXT.OUTPUT.EXACT_HINT}
+                        </Text>
+                      )}
+                      {outputSettings.resize.mode === 'max-edge' && (
+                        <FormControl display="flex" alignItems="center">
+                          <FormLabel fontSize="sm" mb={0} mr={2} whiteSpace="nowrap">
+                            {TEXT.OUTPUT.MAX_EDGE_LABEL}
+                          </FormLabel>
+                          <Input
+                            size="sm"
+                            type="number"
+                            min={OUTPUT_SIZE.MIN}
+                            max={OUTPUT_SIZE.MAX}
+                            value={outputSettings.resize.maxEdge}
+                            onChange={(e) => handleResizeChange('maxEdge', e.target.value)}
+                          />
+                        </FormControl>
+                      )}
+                      {outputSettings.resize.mode === 'scale' && (
+                        <FormControl display="flex" alignItems="center">
+                          <FormLabel fontSize="sm" mb={0} mr={2} whiteSpace="nowrap">
+                            {TEXT.OUTPUT.SCALE_LABEL}
+                          </FormLabel>
+                          <Input
+                            size="sm"
+                            type="number"
+                            min={OUTPUT_SIZE.SCALE_MIN}
+                            max={OUTPUT_SIZE.SCALE_MAX}
+                            value={outputSettings.resize.scale}
+                            onChange={(e) => handleResizeChange('scale', e.target.value)}
+                          />
+                        </FormControl>
+                      )}
+                      {(outputSettings.format === 'original' ||
+                        outputSettings.format === 'image/jpeg') && (
+                        <FormControl display="flex" alignItems="center">
+                          <FormLabel fontSize="sm" mb={0} mr={2} whiteSpace="nowrap">
+                            {TEXT.OUTPUT.BACKGROUND_LABEL}
+                          </FormLabel>
+                          <Input
+                            type="color"
+                            size="sm"
+                            w="60px"
+                            p={1}
+                            value={outputSettings.background}
+                            onChange={(e) =>
+                              setOutputSettings((prev) => ({
+                                ...prev,
+                                background: e.target.value
+                              }))
+                            }
+                          />
+                        </FormControl>
+                      )}
+                      {(outputSettings.format === 'original' ||
+                        outputSettings.format === 'image/jpeg') && (
+                        <VStack align="stretch" spacing={1}>
+                          <Text fontSize="sm" fontWeight="medium">
+                            {TEXT.OUTPUT.METADATA_LABEL}
+                          </Text>
+                          {(Object.keys(TEXT.OUTPUT.METADATA) as Array<keyof MetadataSettings>).map(
+                            (key) => (
+                              <Checkbox
+                                key={key}
+                                size="sm"
+                                isChecked={outputSettings.metadata[key]}
+                                onChange={(e) =>
+                                  setOutputSettings((prev) => ({
+                                    ...prev,
+                                    metadata: { ...prev.metadata, [key]: e.target.checked }
+                                  }))
+                                }
+                              >
+                                {TEXT.OUTPUT.METADATA[key]}
+                              </Checkbox>
+                            )
+                          )}
+                          <Text fontSize="xs" color="gray.400">
+                            {TEXT.OUTPUT.METADATA_HINT}
+                          </Text>
+                        </VStack>
+                      )}
+                      <Checkbox
+                        size="sm"
+                        isChecked={outputSettings.numberFiles}
+                        onChange={(e) =>
+                          setOutputSettings((prev) => ({ ...prev, numberFiles: e.target.checked }))
+                        }
+                      >
+                        {TEXT.OUTPUT.NUMBER_FILES}
+                      </Checkbox>
+                    </VStack>
+                  </PopoverBody>
+                </PopoverContent>
+              </Popover>
+              {'showDirectoryPicker' in window && (
+                <>
+                  {saveDirectory && (
+                    <Text fontSize="sm" color="gray.400" lineHeight="32px" noOfLines={1}>
+                      {TEXT.SAVE.FOLDER(saveDirectory.name)}
+                    </Text>
+                  )}
+                  <Button size="sm" onClick={handleSaveDirectoryToggle} isDisabled={isProcessing}>
+                    {saveDirectory
+                      ? TEXT.BUTTONS.STOP_SAVING_TO_FOLDER
+                      : TEXT.BUTTONS.SAVE_TO_FOLDER}
+                  </Button>
+                </>
+              )}
+              <Button
+                size="sm"
+                colorScheme="red"
+                variant="outline"
+                onClick={handleClearSession}
+                isDisabled={isProcessing}
+              >
+                {TEXT.BUTTONS.CLEAR_SESSION}
+              </Button>
+            </Flex>
+          )}
+          {images.length > 0 && (
+            <Flex gap={4} flexWrap="wrap" alignItems="center" justifyContent="flex-end">
+              <FormControl display="flex" alignItems="center" width="auto">
+                <FormLabel fontSize="sm" mb={0} mr={2}>
+                  {TEXT.ORDER.SORT_LABEL}
+                </FormLabel>
+                <Select
+                  size="sm"
+                  width="auto"
+                  value={gridOrder.sort}
+                  onChange={(e) => handleSortChange(e.target.value as GridSortMode)}
+                >
+                  {(Object.keys(TEXT.ORDER.SORT) as GridSortMode[]).map((sort) => (
+                    <option key={sort} value={sort}>
+                      {TEXT.ORDER.SORT[sort]}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+              <Checkbox
+                size="sm"
+                isChecked={gridOrder.descending}
+                isDisabled={isManualOrder}
+                onChange={(e) =>
+                  setGridOrder((prev) => ({ ...prev, descending: e.target.checked }))
+                }
+              >
+                {TEXT.ORDER.REVERSE}
+              </Checkbox>
+              <FormControl display="flex" alignItems="center" width="auto">
+                <FormLabel fontSize="sm" mb={0} mr={2}>
+                  {TEXT.ORDER.PREVIEW_LABEL}
+                </FormLabel>
+                <Select
+                  size="sm"
+                  width="auto"
+                  value={gridPreview}
+                  onChange={(e) => setGridPreview(e.target.value as GridPreviewMode)}
+                >
+                  {(Object.keys(TEXT.ORDER.PREVIEWS) as GridPreviewMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {TEXT.ORDER.PREVIEWS[mode]}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl display="flex" alignItems="center" width="auto">
+                <FormLabel fontSize="sm" mb={0} mr={2}>
+                  {TEXT.ORDER.FILTER_LABEL}
+                </FormLabel>
+                <Select
+                  size="sm"
+                  width="auto"
+                  value={gridOrder.filter}
+                  onChange={(e) =>
+                    setGridOrder((prev) => ({ ...prev, filter: e.target.value as GridFilter }))
+                  }
+                >
+                  {(Object.keys(TEXT.ORDER.FILTERS) as GridFilter[]).map((filter) => (
+                    <option key={filter} value={filter}>
+                      {TEXT.ORDER.FILTERS[filter]}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+            </Flex>
+          )}
+          {selectedIds.length > 0 && (
+            <Flex gap={2} flexWrap="wrap" alignItems="center" justifyContent="flex-end">
+              <Text fontSize="sm" fontWeight="medium" mr={2}>
+                {TEXT.SELECTION.COUNT(selectedImages.length)}
+              </Text>
+              <Button size="sm" variant="ghost" onClick={handleSelectAll}>
+                {TEXT.SELECTION.SELECT_ALL}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={handleSelectionClear}>
+                {TEXT.SELECTION.CLEAR}
+              </Button>
+              <Button
+                size="sm"
+                colorScheme="blue"
+                onClick={() => handleCropAll(false, selectedImages)}
+                isDisabled={isProcessing || selectedImages.length === 0}
+              >
+                {TEXT.SELECTION.CROP}
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => handleCropAll(true, selectedImages)}
+                isDisabled={isProcessing || selectedImages.length === 0}
+              >
+                {TEXT.SELECTION.DOWNLOAD_ZIP}
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleResetSelected}
+                isDisabled={isProcessing || selectedImages.length === 0}
+              >
+                {TEXT.SELECTION.RESET}
+              </Button>
+              <Select
+                size="sm"
+                width="auto"
+                value=""
+                placeholder={TEXT.SELECTION.COPY_CROP}
+                onChange={(e) => handleCopyCropToSelected(e.target.value)}
+                isDisabled={isProcessing || selectedImages.length === 0}
+              >
+                {visibleImages
+                  .filter((image) => image.cropSettings)
+                  .map((image) => (
+                    <option key={image.id} value={image.id}>
+                      {image.file.name}
+                    </option>
+                  ))}
+              </Select>
+              <Button
+                size="sm"
+                colorScheme="red"
+                variant="outline"
+                onClick={handleDeleteSelected}
+                isDisabled={isProcessing || selectedImages.length === 0}
+              >
+                {TEXT.SELECTION.DELETE}
+              </Button>
+            </Flex>
+          )}
+          {images.length > 0 && visibleImages.length === 0 && (
+            <Text fontSize="sm" color="gray.400" textAlign="center">
+              {TEXT.ORDER.NO_MATCHES}
+            </Text>
+          )}
           {isProcessing && (
             <Flex
               position="fixed"
@@ -1425,7 +4399,20 @@ export const ImageCropperApp: React.FC = () => {
                 gap={2}
               >
                 <Spinner size="md" />
-                <Text fontWeight="bold">{TEXT.OVERLAY.PROCESSING}</Text>
+                <Text fontWeight="bold">
+                  {batchProgress
+                    ? batchProgress.isZipping
+                      ? TEXT.OVERLAY.ZIPPING
+                      : TEXT.OVERLAY.CROPPING(batchProgress.done, batchProgress.total)
+                    : importProgress
+                      ? TEXT.OVERLAY.VALIDATING(importProgress.done, importProgress.total)
+                      : TEXT.OVERLAY.PROCESSING}
+                </Text>
+                {importProgress && (
+                  <Button size="sm" ml={2} onClick={handleCancelImport}>
+                    {TEXT.BUTTONS.CANCEL}
+                  </Button>
+                )}
               </Flex>
             </Flex>
           )}
@@ -1437,10 +4424,25 @@ export const ImageCropperApp: React.FC = () => {
             multiple
             hidden
           />
-          <Grid templateColumns="repeat(auto-fill, minmax(200px, 1fr))" gap={4}>
-            {images
-              .sort((a, b) => a.file.name.localeCompare(b.file.name))
-              .map((image) => (
+          <input
+            type="file"
+            ref={folderInputRef}
+            onChange={handleFileChange}
+            // Not in React's input typings, but supported by all current browsers
+            {...{ webkitdirectory: '', directory: '' }}
+            multiple
+            hidden
+          />
+          <Box
+            ref={virtualGrid.containerRef}
+            pt={`${virtualGrid.paddingTop}px`}
+            pb={`${virtualGrid.paddingBottom}px`}
+          >
+            <Grid
+              templateColumns={`repeat(${virtualGrid.columns}, minmax(0, 1fr))`}
+              gap={`${GRID.GAP}px`}
+            >
+              {visibleImages.slice(virtualGrid.startIndex, virtualGrid.endIndex).map((image) => (
                 <Box
                   key={image.id}
                   borderWidth="1px"
@@ -1449,7 +4451,15 @@ export const ImageCropperApp: React.FC = () => {
                   position="relative"
                   display="flex"
                   flexDirection="column"
-                  height="230px"
+                  height={`${GRID.CARD_HEIGHT}px`}
+                  borderColor={selectedIds.includes(image.id) ? 'blue.400' : undefined}
+                  draggable={isManualOrder}
+                  cursor={isManualOrder ? 'grab' : undefined}
+                  opacity={draggedImageId === image.id ? 0.4 : 1}
+                  onDragStart={(e) => handleCardDragStart(e, image.id)}
+                  onDragOver={handleCardDragOver}
+                  onDrop={(e) => handleCardDrop(e, image.id)}
+                  onDragEnd={() => setDraggedImageId(null)}
                 >
                   <Box
                     position="relative"
@@ -1460,14 +4470,34 @@ export const ImageCropperApp: React.FC = () => {
                     overflow="hidden"
                     mb={0}
                   >
-                    <Image
-                      src={image.url}
-                      maxH="150px"
-                      maxW="100%"
-                      objectFit="contain"
-                      width="auto"
-                      height="auto"
-                    />
+                    {gridPreview === 'compare' ? (
+                      <Flex w="full" gap={1} alignItems="center">
+                        <Box flex="1" minW={0} display="flex" justifyContent="center">
+                          <GridThumbnail image={image} />
+                        </Box>
+                        <Box flex="1" minW={0} display="flex" justifyContent="center">
+                          {image.cropSettings ? (
+                            <GridThumbnail
+                              image={image}
+                              preview={getCardPreview(image, 'cropped')}
+                            />
+                          ) : (
+                            <Text fontSize="xs" color="gray.400">
+                              {TEXT.ORDER.NO_CROP}
+                            </Text>
+                          )}
+                        </Box>
+                      </Flex>
+                    ) : (
+                      <GridThumbnail
+                        image={image}
+                        preview={
+                          gridPreview === 'original'
+                            ? undefined
+                            : getCardPreview(image, gridPreview)
+                        }
+                      />
+                    )}
                     <Popover
                       trigger="click"
                       placement="bottom-start"
@@ -1501,7 +4531,7 @@ export const ImageCropperApp: React.FC = () => {
                       </PopoverTrigger>
                       <PopoverContent
                         width="auto"
-                        maxW="300px"
+                        maxW="360px"
                         bg="gray.700"
                         borderColor="gray.600"
                         _dark={{
@@ -1524,6 +4554,13 @@ export const ImageCropperApp: React.FC = () => {
                                 </Text>
                               )}
                             </HStack>
+                            {image.regions && (
+                              <Text fontSize="sm" color="gray.300">
+                                {TEXT.CROP_HISTORY.REGIONS(
+                                  image.regions.map((region) => region.name)
+                                )}
+                              </Text>
+                            )}
                             {image.cropHistory.length === 0 ? (
                               <Text fontSize="sm" color="gray.300">
                                 {TEXT.CROP_HISTORY.EMPTY}
@@ -1531,7 +4568,7 @@ export const ImageCropperApp: React.FC = () => {
                             ) : (
                               <Box>
                                 <Grid
-                                  templateColumns="repeat(4, 1fr)"
+                                  templateColumns="repeat(6, auto)"
                                   gap={0}
                                   fontSize="sm"
                                   color="gray.300"
@@ -1566,54 +4603,130 @@ export const ImageCropperApp: React.FC = () => {
                                       {TEXT.CROP_HISTORY.COLUMNS.WIDTH}
                                     </Text>
                                   </GridItem>
-                                  <GridItem p={1} borderBottom="1px" borderColor="gray.600">
+                                  <GridItem
+                                    p={1}
+                                    borderBottom="1px"
+                                    borderRight="1px"
+                                    borderColor="gray.600"
+                                  >
                                     <Text fontWeight="medium" textAlign="center">
                                       {TEXT.CROP_HISTORY.COLUMNS.HEIGHT}
                                     </Text>
                                   </GridItem>
-                                  {image.cropHistory.map((crop, i) => (
-                                    <Fragment key={i}>
-                                      <GridItem
-                                        p={1}
-                                        borderRight="1px"
-                                        borderBottom={
-                                          i < image.cropHistory.length - 1 ? '1px' : '0'
-                                        }
-                                        borderColor="gray.600"
-                                      >
-                                        <Text textAlign="right">{crop.x}</Text>
-                                      </GridItem>
-                                      <GridItem
-                                        p={1}
-                                        borderRight="1px"
-                                        borderBottom={
-                                          i < image.cropHistory.length - 1 ? '1px' : '0'
-                                        }
-                                        borderColor="gray.600"
-                                      >
-                                        <Text textAlign="right">{crop.y}</Text>
-                                      </GridItem>
-                                      <GridItem
-                                        p={1}
-                                        borderRight="1px"
-                                        borderBottom={
-                                          i < image.cropHistory.length - 1 ? '1px' : '0'
-                                        }
-                                        borderColor="gray.600"
-                                      >
-                                        <Text textAlign="right">{crop.width}</Text>
-                                      </GridItem>
-                                      <GridItem
-                                        p={1}
-                                        borderBottom={
-                                          i < image.cropHistory.length - 1 ? '1px' : '0'
-                                        }
-                                        borderColor="gray.600"
+                                  <GridItem p={1} borderBottom="1px" borderColor="gray.600">
+                                    <Text fontWeight="medium" textAlign="center">
+                                      {TEXT.CROP_HISTORY.COLUMNS.OUTPUT}
+                                    </Text>
+                                  </GridItem>
+                                  <GridItem borderBottom="1px" borderColor="gray.600" />
+                                  {image.cropHistory.map((crop, i) => {
+                                    const change = getCropChange(image.cropHistory, i);
+                                    return (
+                                      <Box
+                                        key={i}
+                                        display="contents"
+                                        cursor="pointer"
+                                        title={TEXT.CROP_HISTORY.RESTORE_TITLE}
+                                        onClick={() => openCropModal(image, crop)}
                                       >
-                                        <Text textAlign="right">{crop.height}</Text>
-                                      </GridItem>
-                                    </Fragment>
-                                  ))}
+                                        {(crop.timestamp || change) && (
+                                          <GridItem colSpan={6} px={1} pt={1}>
+                                            <Text fontSize="xs" color="gray.400">
+                                              {TEXT.CROP_HISTORY.ENTRY_LABEL(crop)}
+                                            </Text>
+                                            {change && (
+                                              <Text fontSize="xs" color="gray.400">
+                                                {TEXT.CROP_HISTORY.CHANGE(change)}
+                                              </Text>
+                                            )}
+                                          </GridItem>
+                                        )}
+                                        <GridItem
+                                          p={1}
+                                          borderRight="1px"
+                                          borderBottom={
+                                            i < image.cropHistory.length - 1 ? '1px' : '0'
+                                          }
+                                          borderColor="gray.600"
+                                        >
+                                          <Text textAlign="right">{crop.x}</Text>
+                                        </GridItem>
+                                        <GridItem
+                                          p={1}
+                                          borderRight="1px"
+                                          borderBottom={
+                                            i < image.cropHistory.length - 1 ? '1px' : '0'
+                                          }
+                                          borderColor="gray.600"
+                                        >
+                                          <Text textAlign="right">{crop.y}</Text>
+                                        </GridItem>
+                                        <GridItem
+                                          p={1}
+                                          borderRight="1px"
+                                          borderBottom={
+                                            i < image.cropHistory.length - 1 ? '1px' : '0'
+                                          }
+                                          borderColor="gray.600"
+                                        >
+                                          <Text textAlign="right">{crop.width}</Text>
+                                        </GridItem>
+                                        <GridItem
+                                          p={1}
+                                          borderRight="1px"
+                                          borderBottom={
+                                            i < image.cropHistory.length - 1 ? '1px' : '0'
+                                          }
+                                          borderColor="gray.600"
+                                        >
+                                          <Text textAlign="right">{crop.height}</Text>
+                                        </GridItem>
+                                        <GridItem
+                                          p={1}
+                                          borderBottom={
+                                            i < image.cropHistory.length - 1 ? '1px' : '0'
+                                          }
+                                          borderColor="gray.600"
+                                        >
+                                          {crop.region && (
+                                            <Text textAlign="right" fontSize="xs" color="gray.400">
+                                              {crop.region}
+                                            </Text>
+                                          )}
+                                          <Text textAlign="right" whiteSpace="nowrap">
+                                            {crop.outputWidth && crop.outputHeight
+                                              ? `${crop.outputWidth} x ${crop.outputHeight}`
+                                              : TEXT.CROP_HISTORY.NO_OUTPUT}
+                                          </Text>
+                                          {crop.transform && (
+                                            <Text textAlign="right" fontSize="xs" color="gray.400">
+                                              {TEXT.CROP_HISTORY.TRANSFORM(crop.transform)}
+                                            </Text>
+                                          )}
+                                        </GridItem>
+                                        <GridItem
+                                          p={1}
+                                          borderBottom={
+                                            i < image.cropHistory.length - 1 ? '1px' : '0'
+                                          }
+                                          borderColor="gray.600"
+                                        >
+                                          <IconButton
+                                            aria-label={TEXT.CROP_HISTORY.REMOVE}
+                                            title={TEXT.CROP_HISTORY.REMOVE}
+                                            icon={<DeleteIcon boxSize={3} />}
+                                            size="xs"
+                                            variant="ghost"
+                                            color="gray.400"
+                                            onClick={(e) => {
+                                              e.stopPropagation();
+                                              handleHistoryRemove(image, i);
+                                            }}
+                                          />
+                                        </GridItem>
+                                      </Box>
+                                    );
+                                  })}
                                 </Grid>
                               </Box>
                             )}
@@ -1638,6 +4751,26 @@ export const ImageCropperApp: React.FC = () => {
                       right={0}
                       onClick={() => handleDelete(image.id)}
                     />
+                    <Box
+                      position="absolute"
+                      bottom={0}
+                      left={0}
+                      display="flex"
+                      bg="blackAlpha.600"
+                      borderRadius="md"
+                      p={1}
+                      onMouseDown={(e) => {
+                        // Shift-click would otherwise also select the text between cards
+                        selectionShiftRef.current = e.shiftKey;
+                        if (e.shiftKey) e.preventDefault();
+                      }}
+                    >
+                      <Checkbox
+                        aria-label={TEXT.SELECTION.SELECT}
+                        isChecked={selectedIds.includes(image.id)}
+                        onChange={() => handleSelectToggle(image.id)}
+                      />
+                    </Box>
                   </Box>
                   <TruncatedFileName
                     filename={image.file.name}
@@ -1669,9 +4802,10 @@ export const ImageCropperApp: React.FC = () => {
                   </Button>
                 </Box>
               ))}
-          </Grid>
+            </Grid>
+          </Box>
         </VStack>
-        <Modal isOpen={isOpen} onClose={onClose} size="xl">
+        <Modal isOpen={isOpen} onClose={onClose} size="xl" closeOnEsc={false}>
           <ModalOverlay />
           <ModalContent display="flex" flexDirection="column" overflow="hidden" m="auto">
             <ModalBody
@@ -1687,6 +4821,8 @@ export const ImageCropperApp: React.FC = () => {
                 <>
                   <Box
                     className="gip-cropper-container"
+                    position="relative"
+                    overflow="hidden"
                     mx="auto" // Center horizontally
                     style={{
                       aspectRatio: originalDimensions
@@ -1711,6 +4847,8 @@ export const ImageCropperApp: React.FC = () => {
                     }}
                   >
                     <Cropper
+                      // Remount per image so keyboard navigation starts from a fresh cropper
+                      key={currentImage.id}
                       src={currentImage.url}
                       style={{ height: '100%', width: '100%' }}
                       minContainerWidth={IMAGE_SIZE.MIN}
@@ -1721,6 +4859,7 @@ export const ImageCropperApp: React.FC = () => {
                       data={initialCropSettings || activeCropSettings}
                       guides={true}
                       crop={handleCropEvent}
+                      cropend={() => cropEditRef.current?.()}
                       ready={handleCropperReady}
                       ref={cropperRef}
                       viewMode={1}
@@ -1737,8 +4876,38 @@ export const ImageCropperApp: React.FC = () => {
                       center={true}
                       toggleDragModeOnDblclick={false}
                       responsive={true}
-                      checkOrientation={true}
+                      // The browser already shows the image upright; letting the cropper
+                      // rotate it again would put crop coordinates in the raw pixel frame
+                      checkOrientation={false}
                     />
+                    {cropperView &&
+                      currentRegions
+                        .filter((region) => region.id !== activeRegionId)
+                        .map((region) => (
+                          <Box
+                            key={region.id}
+                            position="absolute"
+                            zIndex={1}
+                            pointerEvents="none"
+                            border="1px dashed"
+                            borderColor="yellow.300"
+                            left={`${cropperView.left + region.crop.x * cropperView.scale}px`}
+                            top={`${cropperView.top + region.crop.y * cropperView.scale}px`}
+                            width={`${region.crop.width * cropperView.scale}px`}
+                            height={`${region.crop.height * cropperView.scale}px`}
+                          >
+                            <Text
+                              fontSize="xs"
+                              color="white"
+                              bg="blackAlpha.700"
+                              px={1}
+                              maxW="full"
+                              noOfLines={1}
+                            >
+                              {region.name}
+                            </Text>
+                          </Box>
+                        ))}
                   </Box>
                   <VStack spacing={0} w="full">
                     <Text
@@ -1801,7 +4970,11 @@ export const ImageCropperApp: React.FC = () => {
                         </FormLabel>
                         <Select
                           size="sm"
-                          value={selectedAspectRatio}
+                          value={
+                            customRatioInput
+                              ? TEXT.MODAL.ASPECT_RATIOS.CUSTOM.VALUE
+                              : selectedAspectRatio
+                          }
                           onChange={handleAspectChange}
                           h="32px"
                           w="120px"
@@ -1812,12 +4985,330 @@ export const ImageCropperApp: React.FC = () => {
                           <option value={TEXT.MODAL.ASPECT_RATIOS.ORIGINAL.VALUE}>
                             {TEXT.MODAL.ASPECT_RATIOS.ORIGINAL.LABEL}
                           </option>
-                          <option value={TEXT.MODAL.ASPECT_RATIOS.SQUARE.VALUE}>
-                            {TEXT.MODAL.ASPECT_RATIOS.SQUARE.LABEL}
+                          {ASPECT_RATIO_CATALOGUE.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                          {customRatios.length > 0 && (
+                            <optgroup label={TEXT.MODAL.ASPECT_RATIOS.CUSTOM.GROUP}>
+                              {customRatios.map((value) => (
+                                <option key={value} value={value}>
+                                  {value}
+                                </option>
+                              ))}
+                            </optgroup>
+                          )}
+                          {!!parseRatio(selectedAspectRatio) &&
+                            !isKnownRatio(selectedAspectRatio, customRatios) && (
+                              <option value={selectedAspectRatio}>{selectedAspectRatio}</option>
+                            )}
+                          <option value={TEXT.MODAL.ASPECT_RATIOS.CUSTOM.VALUE}>
+                            {TEXT.MODAL.ASPECT_RATIOS.CUSTOM.LABEL}
                           </option>
                         </Select>
+                        <IconButton
+                          size="sm"
+                          h="32px"
+                          ml={2}
+                          aria-label={TEXT.MODAL.SWAP_ORIENTATION}
+                          title={TEXT.MODAL.SWAP_ORIENTATION}
+                          icon={<RepeatIcon />}
+                          onClick={handleSwapOrientation}
+                          isDisabled={
+                            !parseRatio(selectedAspectRatio) || isSquareRatio(selectedAspectRatio)
+                          }
+                        />
+                        <Button
+                          size="sm"
+                          h="32px"
+                          ml={2}
+                          title={TEXT.MODAL.AUTO_CROP_TITLE}
+                          onClick={handleAutoCrop}
+                          isLoading={isDetectingFaces}
+                        >
+                          {TEXT.MODAL.AUTO_CROP}
+                        </Button>
+                      </FormControl>
+                      {customRatioInput && (
+                        <HStack spacing={1}>
+                          <Input
+                            size="sm"
+                            w="60px"
+                            type="number"
+                            min={0}
+                            step="any"
+                            aria-label={TEXT.MODAL.CUSTOM_RATIO.WIDTH}
+                            value={customRatioInput.width}
+                            onChange={(e) =>
+                              setCustomRatioInput((prev) =>
+                                prev ? { ...prev, width: e.target.value } : prev
+                              )
+                            }
+                            autoFocus
+                          />
+                          <Text fontSize="sm">{TEXT.MODAL.CUSTOM_RATIO.SEPARATOR}</Text>
+                          <Input
+                            size="sm"
+                            w="60px"
+                            type="number"
+                            min={0}
+                            step="any"
+                            aria-label={TEXT.MODAL.CUSTOM_RATIO.HEIGHT}
+                            value={customRatioInput.height}
+                            onChange={(e) =>
+                              setCustomRatioInput((prev) =>
+                                prev ? { ...prev, height: e.target.value } : prev
+                              )
+                            }
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleCustomRatioApply();
+                            }}
+                          />
+                          <Button
+                            size="sm"
+                            onClick={handleCustomRatioApply}
+                            isDisabled={
+                              !formatRatio(
+                                Number(customRatioInput.width),
+                                Number(customRatioInput.height)
+                              )
+                            }
+                          >
+                            {TEXT.MODAL.CUSTOM_RATIO.APPLY}
+                          </Button>
+                        </HStack>
+                      )}
+                    </Flex>
+                    <Flex w="full" align="center" gap={2} mt={4} flexWrap="wrap">
+                      <Button
+                        size="sm"
+                        aria-label={TEXT.MODAL.TRANSFORM.ROTATE_LEFT_LABEL}
+                        title={TEXT.MODAL.TRANSFORM.ROTATE_LEFT_LABEL}
+                        onClick={() =>
+                          handleTransformChange({ rotate: activeTransform.rotate - 90 })
+                        }
+                      >
+                        {TEXT.MODAL.TRANSFORM.ROTATE_LEFT}
+                      </Button>
+                      <Button
+                        size="sm"
+                        aria-label={TEXT.MODAL.TRANSFORM.ROTATE_RIGHT_LABEL}
+                        title={TEXT.MODAL.TRANSFORM.ROTATE_RIGHT_LABEL}
+                        onClick={() =>
+                          handleTransformChange({ rotate: activeTransform.rotate + 90 })
+                        }
+                      >
+                        {TEXT.MODAL.TRANSFORM.ROTATE_RIGHT}
+                      </Button>
+                      <Button
+                        size="sm"
+                        isActive={activeTransform.scaleX < 0}
+                        onClick={() => handleTransformChange({ scaleX: -activeTransform.scaleX })}
+                      >
+                        {TEXT.MODAL.TRANSFORM.FLIP_HORIZONTAL}
+                      </Button>
+                      <Button
+                        size="sm"
+                        isActive={activeTransform.scaleY < 0}
+                        onClick={() => handleTransformChange({ scaleY: -activeTransform.scaleY })}
+                      >
+                        {TEXT.MODAL.TRANSFORM.FLIP_VERTICAL}
+                      </Button>
+                      <FormControl display="flex" alignItems="center" flex="1" minW="200px">
+                        <FormLabel fontSize="sm" mb={0} mr={3} whiteSpace="nowrap" minW="130px">
+                          {TEXT.MODAL.TRANSFORM.STRAIGHTEN(activeTransform.straighten)}
+                        </FormLabel>
+                        <Slider
+                          min={-45}
+                          max={45}
+                          step={0.1}
+                          value={activeTransform.straighten}
+                          onChange={(value) => handleTransformChange({ straighten: value })}
+                        >
+                          <SliderTrack>
+                            <SliderFilledTrack />
+                          </SliderTrack>
+                          <SliderThumb />
+                        </Slider>
+                      </FormControl>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        isDisabled={isIdentityTransform(activeTransform)}
+                        onClick={() => handleTransformChange(IDENTITY_TRANSFORM)}
+                      >
+                        {TEXT.MODAL.TRANSFORM.RESET}
+                      </Button>
+                    </Flex>
+                    <Flex w="full" align="center" gap={2} mt={4} flexWrap="wrap">
+                      <FormControl display="flex" alignItems="center" w="auto">
+                        <FormLabel
+                          fontSize="sm"
+                          lineHeight="32px"
+                          mb={0}
+                          mr={2}
+                          whiteSpace="nowrap"
+                        >
+                          {TEXT.PRESETS.LABEL}
+                        </FormLabel>
+                        <Select
+                          size="sm"
+                          h="32px"
+                          w="150px"
+                          placeholder={TEXT.PRESETS.PLACEHOLDER}
+                          value={selectedPresetName}
+                          onChange={handlePresetSelect}
+                          isDisabled={presets.length === 0}
+                        >
+                          {presets.map((preset) => (
+                            <option key={preset.name} value={preset.name}>
+                              {preset.name}
+                            </option>
+                          ))}
+                        </Select>
                       </FormControl>
+                      <Input
+                        size="sm"
+                        h="32px"
+                        w="130px"
+                        placeholder={TEXT.PRESETS.NAME_PLACEHOLDER}
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handlePresetSave();
+                        }}
+                      />
+                      <Button size="sm" onClick={handlePresetSave} isDisabled={!presetName.trim()}>
+                        {TEXT.PRESETS.SAVE}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={handlePresetExport}
+                        isDisabled={presets.length === 0}
+                      >
+                        {TEXT.PRESETS.EXPORT}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => presetInputRef.current?.click()}
+                      >
+                        {TEXT.PRESETS.IMPORT}
+                      </Button>
+                      <input
+                        type="file"
+                        ref={presetInputRef}
+                        onChange={handlePresetImport}
+                        accept="application/json,.json"
+                        hidden
+                      />
                     </Flex>
+                    <VStack w="full" align="stretch" spacing={2} mt={4}>
+                      <Flex align="center" gap={2} flexWrap="wrap">
+                        <Text fontSize="sm" fontWeight="medium" mr={2}>
+                          {TEXT.REGIONS.LABEL}
+                        </Text>
+                        <Button size="sm" onClick={handleRegionAdd}>
+                          {TEXT.REGIONS.ADD}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={handleRegionTemplateSave}
+                          isDisabled={currentRegions.length === 0}
+                        >
+                          {TEXT.REGIONS.SAVE_TEMPLATE}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={handleRegionTemplateApply}
+                          isDisabled={!regionTemplate}
+                        >
+                          {TEXT.REGIONS.APPLY_TEMPLATE(regionTemplate?.regions.length || 0)}
+                        </Button>
+                        {regionTemplate && (
+                          <Button size="sm" variant="ghost" onClick={() => setRegionTemplate(null)}>
+                            {TEXT.REGIONS.CLEAR_TEMPLATE}
+                          </Button>
+                        )}
+                      </Flex>
+                      {currentRegions.map((region) => {
+                        const isActive = region.id === activeRegionId;
+                        return (
+                          <HStack key={region.id} spacing={2}>
+                            <Button
+                              size="xs"
+                              w="60px"
+                              variant={isActive ? 'solid' : 'outline'}
+                              colorScheme={isActive ? 'blue' : 'gray'}
+                              onClick={() => handleRegionSelect(region)}
+                            >
+                              {isActive ? TEXT.REGIONS.EDITING : TEXT.REGIONS.EDIT}
+                            </Button>
+                            <Input
+                              size="sm"
+                              w="140px"
+                              aria-label={TEXT.REGIONS.NAME}
+                              value={region.name}
+                              onChange={(e) =>
+                                handleRegionChange(region.id, { name: e.target.value })
+                              }
+                            />
+                            <Text fontSize="sm" w="70px" noOfLines={1}>
+                              {getAspectLabel(region.aspect)}
+                            </Text>
+                            <Input
+                              size="sm"
+                              w="70px"
+                              type="number"
+                              min={OUTPUT_SIZE.MIN}
+                              max={OUTPUT_SIZE.MAX}
+                              placeholder={TEXT.REGIONS.AUTO}
+                              aria-label={TEXT.REGIONS.OUTPUT_WIDTH}
+                              value={region.outputSize?.width || ''}
+                              onChange={(e) =>
+                                handleRegionOutputSizeChange(region, 'width', e.target.value)
+                              }
+                            />
+                            <Text fontSize="sm">{TEXT.REGIONS.SIZE_SEPARATOR}</Text>
+                            <Input
+                              size="sm"
+                              w="70px"
+                              type="number"
+                              min={OUTPUT_SIZE.MIN}
+                              max={OUTPUT_SIZE.MAX}
+                              placeholder={TEXT.REGIONS.AUTO}
+                              aria-label={TEXT.REGIONS.OUTPUT_HEIGHT}
+                              value={region.outputSize?.height || ''}
+                              onChange={(e) =>
+                                handleRegionOutputSizeChange(region, 'height', e.target.value)
+                              }
+                            />
+                            <IconButton
+                              size="sm"
+                              variant="ghost"
+                              aria-label={TEXT.REGIONS.DELETE}
+                              title={TEXT.REGIONS.DELETE}
+                              icon={<DeleteIcon />}
+                              onClick={() => handleRegionDelete(region.id)}
+                            />
+                          </HStack>
+                        );
+                      })}
+                      {currentRegions.length > 0 && (
+                        <Text fontSize="xs" color="gray.400">
+                          {TEXT.REGIONS.HINT}
+                        </Text>
+                      )}
+                      {regionTemplate && (
+                        <Text fontSize="xs" color="gray.400">
+                          {TEXT.REGIONS.TEMPLATE_HINT}
+                        </Text>
+                      )}
+                    </VStack>
                     <Flex
                       w="full"
                       direction={{ base: 'column', md: 'row' }}
@@ -1926,10 +5417,45 @@ export const ImageCropperApp: React.FC = () => {
                       </GridItem>
                       <GridItem>
                         <HStack>
+                          <Popover
+                            isOpen={isShortcutHelpOpen}
+                            onClose={() => setIsShortcutHelpOpen(false)}
+                            placement="top"
+                          >
+                            <PopoverTrigger>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setIsShortcutHelpOpen((open) => !open)}
+                              >
+                                {TEXT.SHORTCUTS.BUTTON}
+                              </Button>
+                            </PopoverTrigger>
+                            <PopoverContent width="300px">
+                              <PopoverArrow />
+                              <PopoverBody p={3}>
+                                <Text fontSize="sm" fontWeight="bold" mb={2}>
+                                  {TEXT.SHORTCUTS.TITLE}
+                                </Text>
+                                <Grid templateColumns="auto 1fr" columnGap={3} rowGap={1}>
+                                  {TEXT.SHORTCUTS.ITEMS.map((item) => (
+                                    <Fragment key={item.KEYS}>
+                                      <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
+                                        {item.KEYS}
+                                      </Text>
+                                      <Text fontSize="sm" color="gray.300">
+                                        {item.DESC}
+                                      </Text>
+                                    </Fragment>
+                                  ))}
+                                </Grid>
+                              </PopoverBody>
+                            </PopoverContent>
+                          </Popover>
                           <Button size="sm" onClick={handleCancel}>
                             {TEXT.BUTTONS.CANCEL}
                           </Button>
-                          <Button size="sm" colorScheme="blue" onClick={handleCrop}>
+                          <Button size="sm" colorScheme="blue" onClick={() => handleCrop()}>
                             {TEXT.BUTTONS.CROP_DOWNLOAD}
                           </Button>
                         </HStack>
@@ -0,0 +1,83 @@
+import {
+  ASPECT_RATIO_CATALOGUE,
+  findRatioSelection,
+  formatRatio,
+  parseRatio,
+  swapRatio
+} from './aspectRatios';
+
+const CATALOGUE = ASPECT_RATIO_CATALOGUE.map((option) => option.value);
+
+describe('parseRatio', () => {
+  it.each([
+    ['16:9', 16 / 9],
+    ['1.91:1', 1.91],
+    ['35:45', 35 / 45]
+  ])('reads %s', (value, expected) => {
+    expect(parseRatio(value)).toBeCloseTo(expected);
+  });
+
+  it.each(['', 'free', 'original', '16', '16:', ':9', '0:1', '1:0', '-1:1', '1:1:1', '16/9'])(
+    'returns 0 for %p',
+    (value) => {
+      expect(parseRatio(value)).toBe(0);
+    }
+  );
+});
+
+describe('formatRatio', () => {
+  it('builds a value from positive numbers, rounded to two decimals', () => {
+    expect(formatRatio(16, 9)).toBe('16:9');
+    expect(formatRatio(1.905, 1)).toBe('1.91:1');
+    expect(formatRatio(2.5, 1.125)).toBe('2.5:1.13');
+  });
+
+  it.each<[number, number]>([
+    [0, 9],
+    [16, 0],
+    [-16, 9],
+    [NaN, 9],
+    [16, Infinity],
+    [0.001, 1]
+  ])('returns null for %p:%p', (width, height) => {
+    expect(formatRatio(width, height)).toBeNull();
+  });
+});
+
+describe('swapRatio', () => {
+  it('swaps the two sides and back', () => {
+    expect(swapRatio('16:9')).toBe('9:16');
+    expect(swapRatio('1.91:1')).toBe('1:1.91');
+    expect(swapRatio(swapRatio('35:45'))).toBe('35:45');
+  });
+
+  it('leaves values that are not ratios alone', () => {
+    expect(swapRatio('free')).toBe('free');
+  });
+});
+
+describe('findRatioSelection', () => {
+  it.each(CATALOGUE)('finds %s and its swapped ratio', (value) => {
+    expect(findRatioSelection(parseRatio(value), [])).toBe(value);
+
+    // Entries with a mirror in the catalogue, like 4:3 and 3:4, find that entry instead
+    const mirror = CATALOGUE.find(
+      (other) => Math.abs(parseRatio(other) * parseRatio(value) - 1) < 0.001
+    );
+    expect(findRatioSelection(1 / parseRatio(value), [])).toBe(mirror || swapRatio(value));
+  });
+
+  it('allows for rounding in stored ratios', () => {
+    expect(findRatioSelection(1.7777, [])).toBe('16:9');
+  });
+
+  it('finds custom ratios and their swapped ratios', () => {
+    expect(findRatioSelection(7 / 5, ['7:5'])).toBe('7:5');
+    expect(findRatioSelection(5 / 7, ['7:5'])).toBe('5:7');
+  });
+
+  it('returns null for free-form and unknown ratios', () => {
+    expect(findRatioSelection(0, [])).toBeNull();
+    expect(findRatioSelection(7 / 5, [])).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+// aspectRatios.ts
+// Fixed aspect ratios offered in the crop modal, as "W:H" selection values
+// Ratios entered by the user are kept in localStorage alongside the built-in list
+// Swapped ratios missing from both lists are only offered while selected
+
+export interface AspectRatioOption {
+  value: string;
+  label: string;
+}
+
+export const ASPECT_RATIO_CATALOGUE: AspectRatioOption[] = [
+  { value: '1:1', label: '1:1 (Square)' },
+  { value: '4:3', label: '4:3' },
+  { value: '3:4', label: '3:4' },
+  { value: '3:2', label: '3:2 (Print)' },
+  { value: '2:3', label: '2:3 (Print)' },
+  { value: '5:4', label: '5:4' },
+  { value: '4:5', label: '4:5 (Instagram portrait)' },
+  { value: '16:9', label: '16:9 (Widescreen)' },
+  { value: '9:16', label: '9:16 (Story)' },
+  { value: '21:9', label: '21:9 (Ultrawide)' },
+  { value: '1.91:1', label: '1.91:1 (Link preview)' },
+  { value: '3:1', label: '3:1 (Banner)' },
+  { value: '35:45', label: '35:45 (Passport photo)' }
+];
+
+// Crop ratios are stored as floats, so matching allows for rounding
+const RATIO_TOLERANCE = 0.001;
+
+const STORAGE_KEY = 'gic-custom-ratios';
+
+const RATIO_PATTERN = /^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/;
+
+// Returns width / height for a "W:H" value, or 0 if it is not a valid ratio
+export const parseRatio = (value: string): number => {
+  const match = RATIO_PATTERN.exec(value);
+  if (!match) return 0;
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  return width > 0 && height > 0 ? width / height : 0;
+};
+
+// Builds a "W:H" value from user input, or null if either side is not a positive number
+export const formatRatio = (width: number, height: number): string | null => {
+  if (!(width > 0) || !(height > 0) || !Number.isFinite(width) || !Number.isFinite(height)) {
+    return null;
+  }
+  const round = (value: number) => +value.toFixed(2);
+  const value = `${round(width)}:${round(height)}`;
+  return parseRatio(value) ? value : null;
+};
+
+// "16:9" becomes "9:16"
+export const swapRatio = (value: string): string => {
+  const match = RATIO_PATTERN.exec(value);
+  return match ? `${match[2]}:${match[1]}` : value;
+};
+
+export const isSquareRatio = (value: string): boolean =>
+  Math.abs(parseRatio(value) - 1) < RATIO_TOLERANCE;
+
+export const isKnownRatio = (value: string, customRatios: string[]): boolean =>
+  ASPECT_RATIO_CATALOGUE.some((option) => option.value === value) || customRatios.includes(value);
+
+// Finds the built-in or custom ratio matching a numeric ratio, if any
+// Failing that, a swapped one matches too, so a crop made after swapping reopens with its ratio
+export const findRatioSelection = (ratio: number, customRatios: string[]): string | null => {
+  if (!(ratio > 0)) return null;
+  const values = ASPECT_RATIO_CATALOGUE.map((option) => option.value).concat(customRatios);
+  const matches = (value: string) => Math.abs(parseRatio(value) - ratio) < RATIO_TOLERANCE;
+  const match = values.find(matches) || values.map(swapRatio).find(matches);
+  return match || null;
+};
+
+export const loadCustomRatios = (): string[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((value): value is string => typeof value === 'string' && !!parseRatio(value))
+      : [];
+  } catch (error) {
+    console.warn('Failed to load custom aspect ratios:', error);
+    return [];
+  }
+};
+
+export const saveCustomRatios = (ratios: string[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(ratios));
+  } catch (error) {
+    console.warn('Failed to save custom aspect ratios:', error);
+  }
+};
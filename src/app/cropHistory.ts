@@ -0,0 +1,120 @@
+// cropHistory.ts
+// Builds crop history entries and exports the history of a batch for auditing
+// Entries from older sessions only have the rounded rectangle, so every other field is optional
+import { roundCropDimensions } from './cropRender';
+import { CropDimensions, CropHistoryEntry, CropSettings, ImageData, ImageTransform } from './types';
+
+export const HISTORY_EXPORT = {
+  CSV: { FILENAME: 'crop-history.csv', TYPE: 'text/csv' },
+  JSON: { FILENAME: 'crop-history.json', TYPE: 'application/json' }
+};
+
+const CSV_COLUMNS = [
+  'source',
+  'entry',
+  'timestamp',
+  'region',
+  'x',
+  'y',
+  'width',
+  'height',
+  'aspectRatio',
+  'rotate',
+  'flipH',
+  'flipV',
+  'outputWidth',
+  'outputHeight',
+  'format',
+  'output'
+];
+
+// Records one written output, named as actually saved (e.g. after ZIP de-duplication)
+export const createHistoryEntry = (
+  crop: CropSettings,
+  file: Pick<File, 'name' | 'type'>,
+  outputSize: { width: number; height: number },
+  transform?: ImageTransform,
+  region?: string
+): CropHistoryEntry => ({
+  ...roundCropDimensions(crop),
+  outputWidth: outputSize.width,
+  outputHeight: outputSize.height,
+  transform,
+  region,
+  aspectRatio: crop.aspectRatio || undefined,
+  timestamp: Date.now(),
+  format: file.type,
+  filename: file.name
+});
+
+// Change from the previous entry for the same region, or null for the first or an unchanged one
+export const getCropChange = (
+  history: CropHistoryEntry[],
+  index: number
+): CropDimensions | null => {
+  const entry = history[index];
+  for (let i = index - 1; i >= 0; i--) {
+    const previous = history[i];
+    if (previous.region !== entry.region) continue;
+    const change = {
+      x: entry.x - previous.x,
+      y: entry.y - previous.y,
+      width: entry.width - previous.width,
+      height: entry.height - previous.height
+    };
+    return change.x || change.y || change.width || change.height ? change : null;
+  }
+  return null;
+};
+
+const toCsvValue = (value: string | number | boolean | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportHistoryCsv = (images: ImageData[]): string => {
+  const rows = [CSV_COLUMNS.join(',')];
+  images.forEach((image) => {
+    image.cropHistory.forEach((entry, index) => {
+      rows.push(
+        [
+          image.file.name,
+          index + 1,
+          entry.timestamp ? new Date(entry.timestamp).toISOString() : undefined,
+          entry.region,
+          entry.x,
+          entry.y,
+          entry.width,
+          entry.height,
+          entry.aspectRatio,
+          entry.transform ? entry.transform.rotate + entry.transform.straighten : undefined,
+          entry.transform ? entry.transform.scaleX < 0 : undefined,
+          entry.transform ? entry.transform.scaleY < 0 : undefined,
+          entry.outputWidth,
+          entry.outputHeight,
+          entry.format,
+          entry.filename
+        ]
+          .map(toCsvValue)
+          .join(',')
+      );
+    });
+  });
+  return rows.join('\r\n');
+};
+
+export const exportHistoryJson = (images: ImageData[]): string =>
+  JSON.stringify(
+    images
+      .filter((image) => image.cropHistory.length > 0)
+      .map((image) => ({
+        source: image.file.name,
+        history: image.cropHistory.map((entry) => ({
+          ...entry,
+          timestamp: entry.timestamp ? new Date(entry.timestamp).toISOString() : undefined
+        }))
+      })),
+    null,
+    2
+  );
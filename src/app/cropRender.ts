@@ -0,0 +1,146 @@
+// cropRender.ts
+import { CropDimensions, ImageTransform } from './types';
+
+// Loads an image element from a URL, rejecting if the browser cannot decode it
+export const loadImageElement = (url: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => {
+      img.onload = null;
+      img.onerror = null;
+      resolve(img);
+    };
+    img.onerror = (event) => {
+      img.onload = null;
+      img.onerror = null;
+      reject(event);
+    };
+    img.src = url;
+  });
+};
+
+// Decodes a file to an upright bitmap, applying its EXIF orientation like an <img> does
+// Older browsers reject the 'from-image' value, and apply orientation by default anyway
+export const createOrientedBitmap = (
+  file: Blob,
+  options: ImageBitmapOptions = {}
+): Promise<ImageBitmap> => {
+  const oriented = { ...options, imageOrientation: 'from-image' } as unknown as ImageBitmapOptions;
+  return createImageBitmap(file, oriented).catch(() => createImageBitmap(file, options));
+};
+
+export const IDENTITY_TRANSFORM: ImageTransform = {
+  rotate: 0,
+  straighten: 0,
+  scaleX: 1,
+  scaleY: 1
+};
+
+export const isIdentityTransform = (transform?: ImageTransform): boolean =>
+  !transform ||
+  ((transform.rotate + transform.straighten) % 360 === 0 &&
+    transform.scaleX === 1 &&
+    transform.scaleY === 1);
+
+// Size of the bounding box of an image after rotation, matching cropper's canvas data
+export const getTransformedSize = (
+  size: { width: number; height: number },
+  transform?: ImageTransform
+): { width: number; height: number } => {
+  if (!transform) return size;
+  const radians = ((transform.rotate + transform.straighten) * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  // Avoid float noise turning exact quarter turns into fractional sizes
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+  return {
+    width: round(size.width * cos + size.height * sin),
+    height: round(size.width * sin + size.height * cos)
+  };
+};
+
+// Rounds a crop rectangle to whole source pixels
+export const roundCropDimensions = (crop: CropDimensions): CropDimensions => ({
+  x: Math.round(crop.x),
+  y: Math.round(crop.y),
+  width: Math.round(crop.width),
+  height: Math.round(crop.height)
+});
+
+// Checks that a rounded crop rectangle lies fully inside the source image
+export const isCropInBounds = (
+  crop: CropDimensions,
+  dimensions: { width: number; height: number }
+): boolean => {
+  const { x, y, width, height } = roundCropDimensions(crop);
+  return (
+    x >= 0 &&
+    y >= 0 &&
+    width >= 1 &&
+    height >= 1 &&
+    x + width <= dimensions.width &&
+    y + height <= dimensions.height
+  );
+};
+
+// Draws the crop region of a loaded image onto a new canvas
+// An optional fill colour is painted first to replace transparent areas
+// An optional output size scales the region, otherwise it is copied 1:1
+// An optional transform rotates and flips the image first; the crop is then
+// relative to the transformed bounding box, as in cropper's getCroppedCanvas
+// Context settings apply to the new canvas, e.g. willReadFrequently for pixel analysis
+// The caller is responsible for releasing the canvas once done with it
+export const renderCropToCanvas = (
+  img: HTMLImageElement,
+  crop: CropDimensions,
+  fillColor?: string,
+  outputSize?: { width: number; height: number },
+  transform?: ImageTransform,
+  contextSettings?: CanvasRenderingContext2DSettings
+): HTMLCanvasElement => {
+  const { x, y, width, height } = roundCropDimensions(crop);
+  const canvas = document.createElement('canvas');
+  canvas.width = outputSize ? outputSize.width : width;
+  canvas.height = outputSize ? outputSize.height : height;
+
+  const ctx = canvas.getContext('2d', contextSettings);
+  if (!ctx) {
+    throw new Error('Canvas 2D context is unavailable');
+  }
+
+  if (fillColor) {
+    ctx.fillStyle = fillColor;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  if (!transform || isIdentityTransform(transform)) {
+    ctx.drawImage(img, x, y, width, height, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  }
+
+  const natural = { width: img.naturalWidth, height: img.naturalHeight };
+  const bounds = getTransformedSize(natural, transform);
+  ctx.scale(canvas.width / width, canvas.height / height);
+  ctx.translate(bounds.width / 2 - x, bounds.height / 2 - y);
+  ctx.rotate(((transform.rotate + transform.straighten) * Math.PI) / 180);
+  ctx.scale(transform.scaleX, transform.scaleY);
+  ctx.drawImage(img, -natural.width / 2, -natural.height / 2, natural.width, natural.height);
+  return canvas;
+};
+
+export const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  type?: string,
+  quality?: number
+): Promise<Blob | null> => {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+};
+
+// Frees the memory held by a canvas backing store
+export const releaseCanvas = (canvas: HTMLCanvasElement) => {
+  canvas.width = 0;
+  canvas.height = 0;
+};
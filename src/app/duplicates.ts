@@ -0,0 +1,145 @@
+// duplicates.ts
+// Identifies duplicate imports by content rather than by filename
+// SHA-256 catches exact copies; a difference hash (dHash) flags visually near-identical images
+import { createOrientedBitmap, loadImageElement, releaseCanvas } from './cropRender';
+import { ImageData } from './types';
+
+// dHash compares each pixel with its right neighbour on a 9x8 grayscale thumbnail,
+// giving 64 bits; images within a few bits of each other look the same
+const DHASH = {
+  WIDTH: 9,
+  HEIGHT: 8,
+  MAX_DISTANCE: 5
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const readArrayBuffer = (file: Blob): Promise<ArrayBuffer> => {
+  if (typeof file.arrayBuffer === 'function') return file.arrayBuffer();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+};
+
+// Returns a hex SHA-256 of the file bytes
+// SubtleCrypto only exists in secure contexts, elsewhere name and size stand in for the hash
+export const hashFile = async (file: File): Promise<string> => {
+  if (!window.crypto?.subtle) {
+    return `name:${file.name}:${file.size}`;
+  }
+  const digest = await window.crypto.subtle.digest('SHA-256', await readArrayBuffer(file));
+  return toHex(digest);
+};
+
+const decodeTiny = async (file: File): Promise<ImageBitmap | HTMLImageElement> => {
+  if ('createImageBitmap' in window) {
+    try {
+      return await createOrientedBitmap(file, {
+        resizeWidth: DHASH.WIDTH,
+        resizeHeight: DHASH.HEIGHT,
+        resizeQuality: 'medium'
+      });
+    } catch (error) {
+      console.warn('createImageBitmap failed, using image element:', error);
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    return await loadImageElement(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Returns a 16-character hex difference hash of the image, or null if it cannot be drawn
+export const computePerceptualHash = async (file: File): Promise<string | null> => {
+  const source = await decodeTiny(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = DHASH.WIDTH;
+  canvas.height = DHASH.HEIGHT;
+
+  try {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(source, 0, 0, DHASH.WIDTH, DHASH.HEIGHT);
+    const { data } = ctx.getImageData(0, 0, DHASH.WIDTH, DHASH.HEIGHT);
+
+    const luminance = (x: number, y: number) => {
+      const offset = (y * DHASH.WIDTH + x) * 4;
+      return data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+    };
+
+    let hash = '';
+    for (let y = 0; y < DHASH.HEIGHT; y++) {
+      let nibble = 0;
+      for (let x = 0; x < DHASH.WIDTH - 1; x++) {
+        nibble = (nibble << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+        if (x % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+    return hash;
+  } finally {
+    releaseCanvas(canvas);
+    if ('close' in source) {
+      source.close();
+    }
+  }
+};
+
+const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+};
+
+export const isNearDuplicate = (a: string, b: string): boolean =>
+  a.length === b.length && hammingDistance(a, b) <= DHASH.MAX_DISTANCE;
+
+// Appends " (2)", " (3)", ... before the extension until the name is not taken
+// Comparison ignores case since downloads and ZIP entries may land on case-insensitive file systems
+export const makeUniqueName = (name: string, taken: Set<string>): string => {
+  const lastDotIndex = name.lastIndexOf('.');
+  const base = lastDotIndex > 0 ? name.slice(0, lastDotIndex) : name;
+  const extension = lastDotIndex > 0 ? name.slice(lastDotIndex) : '';
+
+  let candidate = name;
+  for (let counter = 2; taken.has(candidate.toLowerCase()); counter++) {
+    candidate = `${base} (${counter})${extension}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Fills in hashes missing from images restored from older sessions
+// Returns the same object when nothing had to be computed
+export const ensureImageHashes = async (
+  image: ImageData,
+  withPerceptualHash: boolean
+): Promise<ImageData> => {
+  const needsContentHash = image.contentHash === undefined;
+  const needsPerceptualHash = withPerceptualHash && image.perceptualHash === undefined;
+  if (!needsContentHash && !needsPerceptualHash) return image;
+
+  return {
+    ...image,
+    contentHash: needsContentHash ? await hashFile(image.file) : image.contentHash,
+    perceptualHash: needsPerceptualHash
+      ? await computePerceptualHash(image.file).catch(() => null)
+      : image.perceptualHash
+  };
+};
@@ -0,0 +1,147 @@
+// faceCrop.ts
+// Suggests a crop framing the people in a photo, computed locally on the CPU
+// Faces are found with tracking.js's Viola-Jones detector and OpenCV's frontal face cascade,
+// which ships in the package as code, so there is no model download and no GPU use
+// The library is loaded on first use, keeping it out of the main bundle
+import { getTransformedSize, releaseCanvas, renderCropToCanvas } from './cropRender';
+import { CropDimensions, CropSettings, ImageTransform } from './types';
+
+// Detection runs on a copy of the image at most this large; the cascade finds faces down to
+// 20px there. Faces need several overlapping windows, which drops most false positives
+const DETECTION = {
+  MAX_SIZE: 640,
+  SCALE_FACTOR: 1.25,
+  STEP_SIZE: 1.5,
+  // Windows with fewer edges than this are skipped without running the cascade
+  EDGES_DENSITY: 0.1,
+  MIN_NEIGHBOURS: 3
+};
+
+// Margins around the faces, in face heights, so heads and shoulders are not cut off
+const FRAMING = {
+  TOP: 0.7,
+  BOTTOM: 1.2,
+  SIDE: 0.8
+};
+
+let detector: Promise<{ violaJones: TrackingViolaJones; classifier: Float64Array }> | null = null;
+
+// Loads the library and the cascade once; a failed load is retried on the next call
+const loadDetector = () => {
+  if (!detector) {
+    detector = (async () => {
+      await import('tracking');
+      await import('tracking/build/data/face');
+      const violaJones = window.tracking?.ViolaJones;
+      const classifier = violaJones?.classifiers.face;
+      if (!violaJones || !classifier) throw new Error('Face cascade is unavailable');
+      return { violaJones, classifier };
+    })();
+    detector.catch(() => {
+      detector = null;
+    });
+  }
+  return detector;
+};
+
+// Returns face boxes in the coordinates of the transformed image, as crop rectangles use
+export const detectFaces = async (
+  img: HTMLImageElement,
+  transform?: ImageTransform
+): Promise<CropDimensions[]> => {
+  const { violaJones, classifier } = await loadDetector();
+  const bounds = getTransformedSize(
+    { width: img.naturalWidth, height: img.naturalHeight },
+    transform
+  );
+  const scale = Math.min(1, DETECTION.MAX_SIZE / Math.max(bounds.width, bounds.height));
+  const width = Math.max(1, Math.round(bounds.width * scale));
+  const height = Math.max(1, Math.round(bounds.height * scale));
+
+  // willReadFrequently keeps the canvas in software, so no part of this uses the GPU
+  const canvas = renderCropToCanvas(
+    img,
+    { x: 0, y: 0, ...bounds },
+    undefined,
+    { width, height },
+    transform,
+    { willReadFrequently: true }
+  );
+
+  try {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is unavailable');
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const detections = violaJones.detect(
+      data,
+      width,
+      height,
+      1,
+      DETECTION.SCALE_FACTOR,
+      DETECTION.STEP_SIZE,
+      DETECTION.EDGES_DENSITY,
+      classifier
+    );
+
+    const scaleX = bounds.width / width;
+    const scaleY = bounds.height / height;
+    return detections
+      .filter((face) => face.total >= DETECTION.MIN_NEIGHBOURS)
+      .map((face) => ({
+        x: face.x * scaleX,
+        y: face.y * scaleY,
+        width: face.width * scaleX,
+        height: face.height * scaleY
+      }));
+  } finally {
+    releaseCanvas(canvas);
+  }
+};
+
+// Frames all faces with room for heads and shoulders, at the given aspect ratio (0 for free)
+// When the framed group does not fit at that ratio, the crop is as large as the image allows,
+// centred on the faces; returns null when there are no faces
+export const suggestFaceCrop = (
+  faces: CropDimensions[],
+  size: { width: number; height: number },
+  aspectRatio: number
+): CropSettings | null => {
+  if (faces.length === 0) return null;
+
+  const left = Math.min(...faces.map((face) => face.x));
+  const top = Math.min(...faces.map((face) => face.y));
+  const right = Math.max(...faces.map((face) => face.x + face.width));
+  const bottom = Math.max(...faces.map((face) => face.y + face.height));
+  const heights = faces.map((face) => face.height).sort((a, b) => a - b);
+  const faceHeight = heights[Math.floor(heights.length / 2)];
+
+  const x = left - FRAMING.SIDE * faceHeight;
+  const y = top - FRAMING.TOP * faceHeight;
+  let width = right - left + 2 * FRAMING.SIDE * faceHeight;
+  let height = bottom - top + (FRAMING.TOP + FRAMING.BOTTOM) * faceHeight;
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+
+  if (aspectRatio > 0) {
+    if (width / height < aspectRatio) {
+      width = height * aspectRatio;
+    } else {
+      height = width / aspectRatio;
+    }
+    const fit = Math.min(1, size.width / width, size.height / height);
+    width *= fit;
+    height *= fit;
+  } else {
+    width = Math.min(width, size.width);
+    height = Math.min(height, size.height);
+  }
+
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max));
+  return {
+    x: clamp(centerX - width / 2, size.width - width),
+    y: clamp(centerY - height / 2, size.height - height),
+    width,
+    height,
+    aspectRatio
+  };
+};
@@ -0,0 +1,84 @@
+import { checkDeclaredType, detectImageType } from './fileSignature';
+
+const ACCEPTED_TYPES: Record<string, string[]> = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/gif': ['.gif'],
+  'image/webp': ['.webp']
+};
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+const blob = (...bytes: number[]) => new Blob([new Uint8Array(bytes)]);
+
+const JPEG = [0xff, 0xd8, 0xff, 0xe0, 0, 0x10, ...ascii('JFIF'), 0, 1];
+const PNG = [0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d];
+
+describe('detectImageType', () => {
+  it.each([
+    ['image/jpeg', JPEG],
+    ['image/png', PNG],
+    ['image/gif', [...ascii('GIF87a'), 1, 0, 1, 0, 0, 0]],
+    ['image/gif', [...ascii('GIF89a'), 1, 0, 1, 0, 0, 0]],
+    ['image/webp', [...ascii('RIFF'), 0x24, 0, 0, 0, ...ascii('WEBP')]]
+  ])('detects %s', async (type, bytes) => {
+    await expect(detectImageType(blob(...bytes))).resolves.toBe(type);
+  });
+
+  it.each([
+    ['a RIFF file that is not WebP', [...ascii('RIFF'), 0x24, 0, 0, 0, ...ascii('WAVE')]],
+    ['a GIF signature with a wrong fixed byte', ascii('GIF90a123456')],
+    ['text', ascii('hello, world')]
+  ])('rejects %s', async (_, bytes) => {
+    await expect(detectImageType(blob(...bytes))).resolves.toBeNull();
+  });
+
+  it('handles files shorter than the header', async () => {
+    await expect(detectImageType(blob(0xff, 0xd8, 0xff))).resolves.toBe('image/jpeg');
+    await expect(detectImageType(blob(...ascii('RIFF')))).resolves.toBeNull();
+    await expect(detectImageType(blob())).resolves.toBeNull();
+  });
+});
+
+describe('checkDeclaredType', () => {
+  const file = (name: string, type: string) => new File([new Uint8Array(JPEG)], name, { type });
+
+  it('accepts a correctly declared file as is', () => {
+    const jpeg = file('photo.JPEG', 'image/jpeg');
+    expect(checkDeclaredType(jpeg, 'image/jpeg', ACCEPTED_TYPES, false)).toEqual({
+      status: 'accepted',
+      file: jpeg
+    });
+  });
+
+  it('rejects unsupported content as an invalid type', () => {
+    expect(checkDeclaredType(file('notes.jpg', 'image/jpeg'), null, ACCEPTED_TYPES, true)).toEqual({
+      status: 'invalid-type'
+    });
+  });
+
+  // Such files were counted as invalid types before content detection
+  it.each([
+    ['the wrong type and extension', 'photo.png', 'image/png'],
+    ['the right type but the wrong extension', 'photo.txt', 'image/jpeg'],
+    ['no extension', 'photo', '']
+  ])('counts a supported image with %s as a mismatch', (_, name, type) => {
+    expect(checkDeclaredType(file(name, type), 'image/jpeg', ACCEPTED_TYPES, false)).toEqual({
+      status: 'mime-mismatch'
+    });
+  });
+
+  it('relabels a mismatched file with the detected type when accepted', () => {
+    const check = checkDeclaredType(
+      file('photo.png', 'image/png'),
+      'image/jpeg',
+      ACCEPTED_TYPES,
+      true
+    );
+    expect(check.status).toBe('accepted');
+    if (check.status !== 'accepted') return;
+    expect(check.file.name).toBe('photo.png');
+    expect(check.file.type).toBe('image/jpeg');
+    expect(check.file.size).toBe(JPEG.length);
+  });
+});
@@ -0,0 +1,83 @@
+// fileSignature.ts
+// Detects an image's real type from its leading bytes, since file.type only reflects the extension
+
+interface Signature {
+  type: string;
+  // Byte values to match at the given offset; null matches any byte
+  parts: Array<{ offset: number; bytes: Array<number | null> }>;
+}
+
+const SIGNATURES: Signature[] = [
+  { type: 'image/jpeg', parts: [{ offset: 0, bytes: [0xff, 0xd8, 0xff] }] },
+  {
+    type: 'image/png',
+    parts: [{ offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }]
+  },
+  // GIF87a or GIF89a
+  { type: 'image/gif', parts: [{ offset: 0, bytes: [0x47, 0x49, 0x46, 0x38, null, 0x61] }] },
+  // RIFF <size> WEBP
+  {
+    type: 'image/webp',
+    parts: [
+      { offset: 0, bytes: [0x52, 0x49, 0x46, 0x46] },
+      { offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] }
+    ]
+  }
+];
+
+const HEADER_LENGTH = 12;
+
+const readHeader = (file: Blob): Promise<Uint8Array> => {
+  const slice = file.slice(0, HEADER_LENGTH);
+  if (typeof slice.arrayBuffer === 'function') {
+    return slice.arrayBuffer().then((buffer) => new Uint8Array(buffer));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(slice);
+  });
+};
+
+const matches = (header: Uint8Array, signature: Signature): boolean =>
+  signature.parts.every(({ offset, bytes }) =>
+    bytes.every((byte, index) => byte === null || header[offset + index] === byte)
+  );
+
+// Returns the MIME type matching the file's signature, or null if it is not a supported image
+export const detectImageType = async (file: Blob): Promise<string | null> => {
+  const header = await readHeader(file);
+  const signature = SIGNATURES.find((candidate) => matches(header, candidate));
+  return signature ? signature.type : null;
+};
+
+// Result of checking a file's declared type and extension against its content
+export type DeclaredTypeCheck =
+  | { status: 'invalid-type' }
+  | { status: 'mime-mismatch' }
+  | { status: 'accepted'; file: File };
+
+// A supported image declared with the wrong type or extension is a mismatch, not an invalid file
+// With acceptMismatched it is accepted instead, relabelled with the detected type
+export const checkDeclaredType = (
+  file: File,
+  detectedType: string | null,
+  acceptedTypes: Record<string, string[]>,
+  acceptMismatched: boolean
+): DeclaredTypeCheck => {
+  const extensions = detectedType ? acceptedTypes[detectedType] : undefined;
+  if (!detectedType || !extensions) return { status: 'invalid-type' };
+
+  const dot = file.name.lastIndexOf('.');
+  const extension = dot === -1 ? '' : file.name.slice(dot).toLowerCase();
+  if (file.type === detectedType && extensions.includes(extension)) {
+    return { status: 'accepted', file };
+  }
+  if (!acceptMismatched) return { status: 'mime-mismatch' };
+
+  return {
+    status: 'accepted',
+    file: new File([file], file.name, { type: detectedType, lastModified: file.lastModified })
+  };
+};
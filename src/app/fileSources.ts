@@ -0,0 +1,88 @@
+// fileSources.ts
+// Collects files from drops and clipboard pastes, including folders dropped as a whole
+
+const PASTED_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp'
+};
+
+const readFileEntry = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries returns directory contents in batches until it yields an empty one
+const readDirectoryEntries = async (
+  directory: FileSystemDirectoryEntry
+): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await readFileEntry(entry as FileSystemFileEntry)];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(collectEntryFiles));
+    return nested.reduce((all, files) => all.concat(files), []);
+  }
+  return [];
+};
+
+// Returns every file in a drop, walking dropped folders recursively
+// Entries must be taken synchronously: the DataTransfer is emptied once the event returns
+export const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const items = Array.from(dataTransfer.items || []);
+  const entries = items
+    .filter((item) => item.kind === 'file')
+    .map((item) => (typeof item.webkitGetAsEntry === 'function' ? item.webkitGetAsEntry() : null));
+
+  if (entries.length === 0 || entries.some((entry) => !entry)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const results = await Promise.all(
+    (entries as FileSystemEntry[]).map((entry) =>
+      collectEntryFiles(entry).catch((error) => {
+        console.warn('Failed to read dropped entry:', { name: entry.name, error });
+        return [] as File[];
+      })
+    )
+  );
+  return results.reduce((all, files) => all.concat(files), []);
+};
+
+const timestamp = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+};
+
+// Returns pasted image blobs as files; clipboard images are usually all named "image.png"
+// so each gets a generated timestamped name
+export const getPastedImages = (clipboardData: DataTransfer): File[] => {
+  const now = new Date();
+  return Array.from(clipboardData.items || [])
+    .filter((item) => item.kind === 'file' && item.type.startsWith('image/'))
+    .map((item) => item.getAsFile())
+    .filter((file): file is File => !!file)
+    .map((file, index, files) => {
+      const suffix = files.length > 1 ? `-${index + 1}` : '';
+      const extension = PASTED_EXTENSIONS[file.type] || '';
+      return new File([file], `pasted-${timestamp(now)}${suffix}${extension}`, {
+        type: file.type,
+        lastModified: now.getTime()
+      });
+    });
+};
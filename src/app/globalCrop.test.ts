@@ -0,0 +1,81 @@
+import { Dimensions, GlobalCropScaling, mapGlobalCrop } from './globalCrop';
+import { CropSettings } from './types';
+
+const crop = (x: number, y: number, width: number, height: number, aspectRatio = 0) => ({
+  x,
+  y,
+  width,
+  height,
+  aspectRatio
+});
+
+describe('mapGlobalCrop', () => {
+  it('returns the crop unchanged without a source size or in absolute mode', () => {
+    const source = crop(900, 900, 400, 400);
+    expect(mapGlobalCrop(source, null, { width: 100, height: 100 }, 'relative')).toBe(source);
+    expect(
+      mapGlobalCrop(source, { width: 1000, height: 1000 }, { width: 100, height: 100 }, 'absolute')
+    ).toBe(source);
+  });
+
+  it('scales position and size in relative mode', () => {
+    expect(
+      mapGlobalCrop(
+        crop(100, 80, 400, 320),
+        { width: 1000, height: 800 },
+        { width: 500, height: 400 },
+        'relative'
+      )
+    ).toEqual(crop(50, 40, 200, 160));
+  });
+
+  // A 200x100 crop drawn on 1000x800, mapped onto 2000x1600
+  it.each<[GlobalCropScaling, CropSettings]>([
+    ['top-left', crop(100, 50, 200, 100)],
+    ['top-right', crop(1100, 50, 200, 100)],
+    ['bottom-left', crop(100, 850, 200, 100)],
+    ['bottom-right', crop(1100, 850, 200, 100)],
+    ['center', crop(600, 450, 200, 100)]
+  ])('keeps the offset from the %s anchor', (scaling, expected) => {
+    expect(
+      mapGlobalCrop(
+        crop(100, 50, 200, 100),
+        { width: 1000, height: 800 },
+        { width: 2000, height: 1600 },
+        scaling
+      )
+    ).toEqual(expected);
+  });
+
+  // Crops drawn on 1000x1000
+  it.each<[string, CropSettings, Dimensions, GlobalCropScaling, number | undefined, CropSettings]>([
+    [
+      'fits a locked aspect ratio around the centre',
+      crop(0, 0, 500, 500, 1),
+      { width: 2000, height: 1000 },
+      'relative',
+      1,
+      crop(250, 0, 500, 500, 1)
+    ],
+    [
+      'clamps an anchored crop that falls off the target',
+      crop(900, 900, 100, 100),
+      { width: 500, height: 500 },
+      'center',
+      undefined,
+      crop(400, 400, 100, 100)
+    ],
+    [
+      'shrinks a crop larger than the target to fit it',
+      crop(100, 100, 600, 400),
+      { width: 300, height: 200 },
+      'top-left',
+      undefined,
+      crop(0, 0, 300, 200)
+    ]
+  ])('%s', (_, source, to, scaling, lockedAspectRatio, expected) => {
+    expect(
+      mapGlobalCrop(source, { width: 1000, height: 1000 }, to, scaling, lockedAspectRatio)
+    ).toEqual(expected);
+  });
+});
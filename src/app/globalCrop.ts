@@ -0,0 +1,120 @@
+// globalCrop.ts
+// Maps a Global mode crop rectangle drawn on one image onto another image
+import { CropSettings } from './types';
+
+// absolute: reuse pixel values as-is
+// relative: scale position and size as fractions of the source dimensions
+// anchors: keep the pixel size and the offset from the chosen corner or centre
+export type GlobalCropScaling =
+  | 'absolute'
+  | 'relative'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right'
+  | 'center';
+
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+// Shrinks a size around its centre until it matches a fixed aspect ratio
+const fitAspectRatio = (crop: CropSettings, aspectRatio: number): CropSettings => {
+  let { width, height } = crop;
+  if (width / height > aspectRatio) {
+    width = height * aspectRatio;
+  } else {
+    height = width / aspectRatio;
+  }
+  return {
+    ...crop,
+    x: crop.x + (crop.width - width) / 2,
+    y: crop.y + (crop.height - height) / 2,
+    width,
+    height
+  };
+};
+
+const clampToImage = (crop: CropSettings, to: Dimensions): CropSettings => {
+  const width = Math.max(1, Math.min(crop.width, to.width));
+  const height = Math.max(1, Math.min(crop.height, to.height));
+  return {
+    ...crop,
+    width,
+    height,
+    x: Math.max(0, Math.min(to.width - width, crop.x)),
+    y: Math.max(0, Math.min(to.height - height, crop.y))
+  };
+};
+
+// Positions one axis of a fixed-size crop relative to an anchor on the target image
+const anchorAxis = (
+  start: number,
+  size: number,
+  newSize: number,
+  fromLength: number,
+  toLength: number,
+  anchor: 'start' | 'end' | 'center'
+): number => {
+  switch (anchor) {
+    case 'start':
+      return start;
+    case 'end':
+      return toLength - (fromLength - (start + size)) - newSize;
+    default:
+      return toLength / 2 + (start + size / 2 - fromLength / 2) - newSize / 2;
+  }
+};
+
+// Maps a crop drawn on an image of size `from` onto an image of size `to`
+// lockedAspectRatio keeps a fixed ratio (e.g. 1:1) intact after scaling
+export const mapGlobalCrop = (
+  crop: CropSettings,
+  from: Dimensions | null,
+  to: Dimensions,
+  scaling: GlobalCropScaling,
+  lockedAspectRatio?: number
+): CropSettings => {
+  if (!from || scaling === 'absolute') return crop;
+
+  let mapped: CropSettings;
+
+  if (scaling === 'relative') {
+    const scaleX = to.width / from.width;
+    const scaleY = to.height / from.height;
+    mapped = {
+      ...crop,
+      x: crop.x * scaleX,
+      y: crop.y * scaleY,
+      width: crop.width * scaleX,
+      height: crop.height * scaleY
+    };
+  } else {
+    const width = Math.min(crop.width, to.width);
+    const height = Math.min(crop.height, to.height);
+    const horizontal = scaling.endsWith('left')
+      ? 'start'
+      : scaling.endsWith('right')
+        ? 'end'
+        : 'center';
+    const vertical = scaling.startsWith('top')
+      ? 'start'
+      : scaling.startsWith('bottom')
+        ? 'end'
+        : 'center';
+    mapped = {
+      ...crop,
+      x: anchorAxis(crop.x, crop.width, width, from.width, to.width, horizontal),
+      y: anchorAxis(crop.y, crop.height, height, from.height, to.height, vertical),
+      width,
+      height
+    };
+  }
+
+  if (lockedAspectRatio) {
+    mapped = fitAspectRatio(mapped, lockedAspectRatio);
+  }
+
+  return clampToImage(mapped, to);
+};
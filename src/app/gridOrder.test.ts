@@ -0,0 +1,123 @@
+import { DEFAULT_GRID_ORDER, GridOrder, insertImages, moveImage, orderImages } from './gridOrder';
+import { ImageData } from './types';
+
+const image = (name: string, extra: Partial<ImageData> = {}, size = 0): ImageData => ({
+  id: name,
+  file: new File([new Uint8Array(size)], name),
+  url: '',
+  objectUrl: '',
+  cropped: false,
+  cropHistory: [],
+  ...extra
+});
+
+const names = (images: ImageData[]) => images.map((img) => img.id);
+
+describe('orderImages', () => {
+  const order = (changes: Partial<GridOrder>): GridOrder => ({ ...DEFAULT_GRID_ORDER, ...changes });
+
+  it('sorts names in natural order, ignoring case', () => {
+    const images = ['img10.jpg', 'IMG2.jpg', 'img1.jpg'].map((name) => image(name));
+    expect(names(orderImages(images, DEFAULT_GRID_ORDER))).toEqual([
+      'img1.jpg',
+      'IMG2.jpg',
+      'img10.jpg'
+    ]);
+    expect(names(orderImages(images, order({ descending: true })))).toEqual([
+      'img10.jpg',
+      'IMG2.jpg',
+      'img1.jpg'
+    ]);
+  });
+
+  it.each<[GridOrder['sort'], ImageData[], string[]]>([
+    ['size', [image('b', {}, 20), image('a', {}, 20), image('c', {}, 10)], ['c', 'a', 'b']],
+    [
+      'dimensions',
+      [
+        image('b', { dimensions: { width: 10, height: 10 } }),
+        image('c', { dimensions: { width: 5, height: 5 } }),
+        image('a', { dimensions: { width: 20, height: 5 } })
+      ],
+      ['c', 'a', 'b']
+    ],
+    [
+      'added',
+      [image('b', { addedAt: 2 }), image('c', { addedAt: 1 }), image('a', { addedAt: 2 })],
+      ['c', 'a', 'b']
+    ],
+    [
+      'cropped',
+      [image('b', { cropped: true }), image('c'), image('a', { cropped: true })],
+      ['c', 'a', 'b']
+    ]
+  ])('sorts by %s and breaks ties by name', (sort, images, expected) => {
+    expect(names(orderImages(images, order({ sort })))).toEqual(expected);
+  });
+
+  it('breaks ties by name when reversed too', () => {
+    const images = [image('b', {}, 20), image('a', {}, 20), image('c', {}, 10)];
+    expect(names(orderImages(images, order({ sort: 'size', descending: true })))).toEqual([
+      'a',
+      'b',
+      'c'
+    ]);
+  });
+
+  it('keeps the list order in manual mode', () => {
+    const images = ['c', 'a', 'b'].map((name) => image(name));
+    expect(names(orderImages(images, order({ sort: 'manual', descending: true })))).toEqual([
+      'c',
+      'a',
+      'b'
+    ]);
+  });
+
+  it.each<[GridOrder['filter'], string[]]>([
+    ['all', ['a', 'b', 'c']],
+    ['cropped', ['b']],
+    ['uncropped', ['a', 'c']]
+  ])('shows %s images', (filter, expected) => {
+    const images = [image('c'), image('b', { cropped: true }), image('a')];
+    expect(names(orderImages(images, order({ filter })))).toEqual(expected);
+  });
+});
+
+describe('moveImage', () => {
+  const images = ['a', 'b', 'c', 'd'].map((name) => image(name));
+
+  it.each([
+    ['forwards', 'a', 'c', ['b', 'c', 'a', 'd']],
+    ['backwards', 'd', 'b', ['a', 'd', 'b', 'c']]
+  ])('moves an image %s, shifting those in between', (_, fromId, toId, expected) => {
+    expect(names(moveImage(images, fromId, toId))).toEqual(expected);
+  });
+
+  it('returns the same list for unknown ids or a move onto itself', () => {
+    expect(moveImage(images, 'a', 'a')).toBe(images);
+    expect(moveImage(images, 'x', 'a')).toBe(images);
+    expect(moveImage(images, 'a', 'x')).toBe(images);
+  });
+});
+
+describe('insertImages', () => {
+  const [a, b, c, d, e] = ['a', 'b', 'c', 'd', 'e'].map((name) => image(name));
+
+  it('puts removed images back at their old positions, in any order', () => {
+    expect(
+      names(
+        insertImages(
+          [a, c, e],
+          [
+            { image: d, index: 3 },
+            { image: b, index: 1 }
+          ]
+        )
+      )
+    ).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('appends images whose position is past the end', () => {
+    expect(names(insertImages([a], [{ image: b, index: 5 }]))).toEqual(['a', 'b']);
+  });
+});
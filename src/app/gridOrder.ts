@@ -0,0 +1,80 @@
+// gridOrder.ts
+// Sorting and filtering of the image grid
+// The resulting order is also used for next/previous navigation and numbered output names
+import { ImageData } from './types';
+
+// manual: the order of the image list itself, changed by dragging cards
+export type GridSortMode = 'name' | 'size' | 'dimensions' | 'added' | 'cropped' | 'manual';
+
+export type GridFilter = 'all' | 'uncropped' | 'cropped';
+
+export interface GridOrder {
+  sort: GridSortMode;
+  descending: boolean;
+  filter: GridFilter;
+}
+
+export const DEFAULT_GRID_ORDER: GridOrder = {
+  sort: 'name',
+  descending: false,
+  filter: 'all'
+};
+
+// Natural order, so "img2" comes before "img10"
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const getArea = (image: ImageData): number =>
+  image.dimensions ? image.dimensions.width * image.dimensions.height : 0;
+
+const COMPARATORS: Record<
+  Exclude<GridSortMode, 'manual'>,
+  (a: ImageData, b: ImageData) => number
+> = {
+  name: (a, b) => collator.compare(a.file.name, b.file.name),
+  size: (a, b) => a.file.size - b.file.size,
+  dimensions: (a, b) => getArea(a) - getArea(b),
+  added: (a, b) => (a.addedAt || 0) - (b.addedAt || 0),
+  cropped: (a, b) => Number(a.cropped) - Number(b.cropped)
+};
+
+// Returns the images shown in the grid, in display order; ties are broken by name
+export const orderImages = (images: ImageData[], order: GridOrder): ImageData[] => {
+  const visible = images.filter(
+    (image) =>
+      order.filter === 'all' || (order.filter === 'cropped' ? image.cropped : !image.cropped)
+  );
+  if (order.sort === 'manual') return visible;
+
+  const compare = COMPARATORS[order.sort];
+  const direction = order.descending ? -1 : 1;
+  return [...visible].sort((a, b) => direction * compare(a, b) || COMPARATORS.name(a, b));
+};
+
+// Moves an image to where another one is, shifting the images in between
+export const moveImage = (images: ImageData[], fromId: string, toId: string): ImageData[] => {
+  const from = images.findIndex((image) => image.id === fromId);
+  const to = images.findIndex((image) => image.id === toId);
+  if (from === -1 || to === -1 || from === to) return images;
+
+  const next = [...images];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+// Puts removed images back where they were, e.g. when a delete is undone
+// Indexes refer to the list before the removal, so they are applied in ascending order
+export const insertImages = (
+  images: ImageData[],
+  restored: Array<{ image: ImageData; index: number }>
+): ImageData[] => {
+  const next = [...images];
+  [...restored]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ image, index }) => next.splice(Math.min(index, next.length), 0, image));
+  return next;
+};
+
+// Zero-padded position for numbered output names, e.g. "007-" in a batch of 120
+export const getNumberPrefix = (index: number, total: number): string =>
+  `${String(index + 1).padStart(Math.max(2, String(total).length), '0')}-`;
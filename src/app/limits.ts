@@ -0,0 +1,108 @@
+// limits.ts
+// User-configurable import limits, kept in localStorage
+
+export interface ImportLimits {
+  maxImages: number;
+  // In megabytes
+  maxFileSize: number;
+  // In megabytes, for all images in the grid together
+  maxBatchSize: number;
+  // In pixels, applied to both width and height of the upright (EXIF-oriented) image
+  minDimension: number;
+  maxDimension: number;
+}
+
+export const DEFAULT_LIMITS: ImportLimits = {
+  maxImages: 10,
+  maxFileSize: 10,
+  maxBatchSize: 200,
+  minDimension: 16,
+  maxDimension: 10000
+};
+
+// Upper bounds keep a full batch from exhausting browser memory
+// The count and per-file bounds alone would allow 50GB, so the batch size bounds the total
+// 16384px is the largest canvas edge most browsers can allocate
+export const LIMIT_BOUNDS: Record<keyof ImportLimits, { min: number; max: number }> = {
+  maxImages: { min: 1, max: 500 },
+  maxFileSize: { min: 1, max: 100 },
+  maxBatchSize: { min: 10, max: 1024 },
+  minDimension: { min: 1, max: 1000 },
+  maxDimension: { min: 100, max: 16384 }
+};
+
+const STORAGE_KEY = 'gic-import-limits';
+
+export const clampLimit = (key: keyof ImportLimits, value: number): number => {
+  const { min, max } = LIMIT_BOUNDS[key];
+  if (!Number.isFinite(value)) return DEFAULT_LIMITS[key];
+  return Math.max(min, Math.min(max, Math.round(value)));
+};
+
+// Clamps every limit, keeps the minimum dimension below the maximum and
+// a single file within the batch size
+export const normalizeLimits = (limits: Partial<ImportLimits>): ImportLimits => {
+  const normalized = (Object.keys(DEFAULT_LIMITS) as Array<keyof ImportLimits>).reduce(
+    (acc, key) => ({ ...acc, [key]: clampLimit(key, Number(limits[key] ?? DEFAULT_LIMITS[key])) }),
+    DEFAULT_LIMITS
+  );
+  if (normalized.minDimension > normalized.maxDimension) {
+    normalized.minDimension = normalized.maxDimension;
+  }
+  if (normalized.maxFileSize > normalized.maxBatchSize) {
+    normalized.maxFileSize = normalized.maxBatchSize;
+  }
+  return normalized;
+};
+
+export const loadLimits = (): ImportLimits => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeLimits(JSON.parse(raw)) : DEFAULT_LIMITS;
+  } catch (error) {
+    console.warn('Failed to load import limits:', error);
+    return DEFAULT_LIMITS;
+  }
+};
+
+export const saveLimits = (limits: ImportLimits) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(limits));
+  } catch (error) {
+    console.warn('Failed to save import limits:', error);
+  }
+};
+
+export const toBytes = (megabytes: number): number => megabytes * 1024 * 1024;
+
+// Import behaviour toggles, stored separately from the numeric limits
+export interface ImportOptions {
+  detectNearDuplicates: boolean;
+  // Import files whose content disagrees with their extension, using the detected type
+  acceptMismatchedTypes: boolean;
+}
+
+export const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+  detectNearDuplicates: true,
+  acceptMismatchedTypes: false
+};
+
+const OPTIONS_STORAGE_KEY = 'gic-import-options';
+
+export const loadImportOptions = (): ImportOptions => {
+  try {
+    const raw = window.localStorage.getItem(OPTIONS_STORAGE_KEY);
+    return raw ? { ...DEFAULT_IMPORT_OPTIONS, ...JSON.parse(raw) } : DEFAULT_IMPORT_OPTIONS;
+  } catch (error) {
+    console.warn('Failed to load import options:', error);
+    return DEFAULT_IMPORT_OPTIONS;
+  }
+};
+
+export const saveImportOptions = (options: ImportOptions) => {
+  try {
+    window.localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.warn('Failed to save import options:', error);
+  }
+};
@@ -0,0 +1,202 @@
+import { applyMetadata, MetadataSettings } from './metadata';
+
+const ALL: MetadataSettings = { copyright: true, captureDate: true, iccProfile: false };
+const NONE: MetadataSettings = { copyright: false, captureDate: false, iccProfile: false };
+const DESCRIPTION = 'sRGB IEC61966-2.1';
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+const readBlob = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const indexOf = (bytes: Uint8Array, pattern: number[]): number => {
+  for (let i = 0; i + pattern.length <= bytes.length; i++) {
+    if (pattern.every((byte, j) => bytes[i + j] === byte)) return i;
+  }
+  return -1;
+};
+
+const segment = (marker: number, body: number[]) => {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...body];
+};
+
+const JFIF = segment(0xe0, [...ascii('JFIF'), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+// Stand-in for the scan data; only the markers before it are parsed
+const SCAN = [...segment(0xda, [1, 2, 3]), 0x12, 0x34, 0xff, 0xd9];
+
+const jpeg = (...segments: number[][]) =>
+  new Blob([new Uint8Array([0xff, 0xd8, ...segments.flat(), ...SCAN])], { type: 'image/jpeg' });
+
+// A little-endian Exif segment with ASCII tags in IFD0, as cameras commonly write
+const exifSegment = (tags: Array<[number, string]>) => {
+  const valuesOffset = 8 + 2 + tags.length * 12 + 4;
+  const tiff = [0x49, 0x49, 0x2a, 0, 8, 0, 0, 0, tags.length, 0];
+  const values: number[] = [];
+  tags.forEach(([tag, value]) => {
+    const bytes = [...ascii(value), 0];
+    const offset = valuesOffset + values.length;
+    tiff.push(tag & 0xff, tag >> 8, 2, 0, bytes.length, 0, 0, 0);
+    if (bytes.length <= 4) {
+      tiff.push(...bytes, ...[0, 0, 0].slice(bytes.length - 1));
+    } else {
+      tiff.push(offset & 0xff, offset >> 8, 0, 0);
+      values.push(...bytes);
+    }
+  });
+  return segment(0xe1, [...ascii('Exif'), 0, 0, ...tiff, 0, 0, 0, 0, ...values]);
+};
+
+const icc = (name: string) => segment(0xe2, [...ascii('ICC_PROFILE'), 0, 1, 1, ...ascii(name)]);
+
+const DATE = '2023:07:14 18:30:05';
+const SOURCE = jpeg(
+  JFIF,
+  exifSegment([
+    [0x0132, DATE],
+    [0x8298, 'Jane Doe']
+  ])
+);
+
+describe('applyMetadata', () => {
+  it('copies copyright and capture date and reads them back', async () => {
+    const first = await applyMetadata(jpeg(JFIF), SOURCE, ALL);
+    const bytes = await readBlob(first);
+
+    expect(Array.from(bytes.subarray(0, 2 + JFIF.length))).toEqual([0xff, 0xd8, ...JFIF]);
+    expect(indexOf(bytes, [0xff, 0xe1])).toBe(2 + JFIF.length);
+    expect(indexOf(bytes, ascii('Jane Doe'))).not.toBe(-1);
+    expect(indexOf(bytes, ascii(DATE))).not.toBe(-1);
+
+    // Written as big-endian with the date in the Exif sub-IFD, so this also covers that reader
+    const second = await applyMetadata(jpeg(JFIF), first, ALL);
+    expect(Array.from(await readBlob(second))).toEqual(Array.from(bytes));
+  });
+
+  it('copies only the selected fields', async () => {
+    const bytes = await readBlob(
+      await applyMetadata(jpeg(JFIF), SOURCE, { ...NONE, captureDate: true })
+    );
+    expect(indexOf(bytes, ascii('Jane Doe'))).toBe(-1);
+    expect(indexOf(bytes, ascii(DATE))).not.toBe(-1);
+  });
+
+  it('stores values of up to 4 bytes inline', async () => {
+    const source = jpeg(JFIF, exifSegment([[0x8298, 'ACM']]));
+    const first = await applyMetadata(jpeg(JFIF), source, ALL);
+    const bytes = await readBlob(first);
+
+    // Copyright tag, ASCII type, count 4, then the value itself instead of an offset
+    expect(indexOf(bytes, [0x82, 0x98, 0, 2, 0, 0, 0, 4, ...ascii('ACM'), 0])).not.toBe(-1);
+
+    const second = await applyMetadata(jpeg(JFIF), first, ALL);
+    expect(Array.from(await readBlob(second))).toEqual(Array.from(bytes));
+  });
+
+  it.each<[string, boolean, string[], string[]]>([
+    ['keeps the encoder profile when not selected', false, ['OUTPUT'], ['SOURCE', DESCRIPTION]],
+    ['replaces both profiles with sRGB when selected', true, [DESCRIPTION], ['SOURCE', 'OUTPUT']]
+  ])('%s', async (_, iccProfile, present, absent) => {
+    const source = jpeg(JFIF, exifSegment([[0x8298, 'Jane Doe']]), icc('SOURCE'));
+    const bytes = await readBlob(
+      await applyMetadata(jpeg(JFIF, icc('OUTPUT')), source, { ...ALL, iccProfile })
+    );
+
+    present.forEach((text) => expect(indexOf(bytes, ascii(text))).not.toBe(-1));
+    absent.forEach((text) => expect(indexOf(bytes, ascii(text))).toBe(-1));
+    expect(indexOf(bytes, ascii('Jane Doe'))).not.toBe(-1);
+  });
+
+  it('writes a well-formed sRGB profile and reads it back', async () => {
+    const source = jpeg(JFIF, icc('SOURCE'));
+    const first = await applyMetadata(jpeg(JFIF), source, { ...NONE, iccProfile: true });
+    const bytes = await readBlob(first);
+
+    // One APP2 chunk (1 of 1) right after JFIF, whose length covers the whole profile
+    const start = 2 + JFIF.length;
+    expect(Array.from(bytes.subarray(start, start + 2))).toEqual([0xff, 0xe2]);
+    expect(indexOf(bytes, [...ascii('ICC_PROFILE'), 0, 1, 1])).toBe(start + 4);
+    const profile = bytes.subarray(
+      start + 18,
+      start + 2 + ((bytes[start + 2] << 8) | bytes[start + 3])
+    );
+    const view = new DataView(profile.buffer, profile.byteOffset, profile.byteLength);
+    expect(view.getUint32(0)).toBe(profile.length);
+    expect(String.fromCharCode(...Array.from(profile.subarray(12, 24)))).toBe('mntrRGB XYZ ');
+    expect(String.fromCharCode(...Array.from(profile.subarray(36, 40)))).toBe('acsp');
+
+    // Every tag points inside the profile, and the three curves share one table
+    const tags = new Map<string, [number, number]>();
+    for (let i = 0; i < view.getUint32(128); i++) {
+      const entry = 132 + i * 12;
+      const signature = String.fromCharCode(...Array.from(profile.subarray(entry, entry + 4)));
+      tags.set(signature, [view.getUint32(entry + 4), view.getUint32(entry + 8)]);
+    }
+    expect(Array.from(tags.keys()).sort()).toEqual(
+      ['bTRC', 'bXYZ', 'cprt', 'desc', 'gTRC', 'gXYZ', 'rTRC', 'rXYZ', 'wtpt'].sort()
+    );
+    tags.forEach(([offset, size]) => expect(offset + size).toBeLessThanOrEqual(profile.length));
+    expect(tags.get('gTRC')).toEqual(tags.get('rTRC'));
+    expect(tags.get('bTRC')).toEqual(tags.get('rTRC'));
+
+    const second = await applyMetadata(jpeg(JFIF), first, { ...NONE, iccProfile: true });
+    expect(Array.from(await readBlob(second))).toEqual(Array.from(bytes));
+  });
+
+  it('adds no profile for a source without one', async () => {
+    const output = jpeg(JFIF);
+    await expect(applyMetadata(output, SOURCE, { ...NONE, iccProfile: true })).resolves.toBe(
+      output
+    );
+  });
+
+  it.each([
+    ['a non-JPEG source', new Blob([new Uint8Array([0x89, ...ascii('PNG')])])],
+    ['a source without Exif', jpeg(JFIF)],
+    [
+      'an APP1 segment cut off after the Exif header',
+      jpeg(segment(0xe1, [...ascii('Exif'), 0, 0]))
+    ],
+    [
+      'an IFD claiming more entries than the segment holds',
+      jpeg(segment(0xe1, [...ascii('Exif'), 0, 0, 0x49, 0x49, 0x2a, 0, 8, 0, 0, 0, 50, 0]))
+    ],
+    [
+      'an IFD offset past the end of the segment',
+      jpeg(segment(0xe1, [...ascii('Exif'), 0, 0, 0x49, 0x49, 0x2a, 0, 0xff, 0xff, 0, 0]))
+    ],
+    [
+      'a value offset past the end of the segment',
+      jpeg(
+        segment(0xe1, [
+          ...ascii('Exif'),
+          0,
+          0,
+          ...[0x49, 0x49, 0x2a, 0, 8, 0, 0, 0, 1, 0],
+          ...[0x98, 0x82, 2, 0, 9, 0, 0, 0, 0xff, 0xff, 0, 0]
+        ])
+      )
+    ],
+    [
+      'a segment length past the end of the file',
+      new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0xff, 0xff, ...ascii('Exif'), 0, 0])])
+    ]
+  ])('returns the output unchanged for %s', async (_, source) => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const output = jpeg(JFIF);
+    await expect(applyMetadata(output, source, ALL)).resolves.toBe(output);
+  });
+
+  it('leaves non-JPEG output and empty selections alone', async () => {
+    const png = new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' });
+    await expect(applyMetadata(png, SOURCE, ALL)).resolves.toBe(png);
+
+    const output = jpeg(JFIF);
+    await expect(applyMetadata(output, SOURCE, NONE)).resolves.toBe(output);
+  });
+});
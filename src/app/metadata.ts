@@ -0,0 +1,280 @@
+// metadata.ts
+// Canvas encoding drops all metadata, which also removes GPS and other private EXIF data
+// This copies back only the fields the user opts into, and only for JPEG sources and output
+// Colour profiles are not copied as-is: the canvas holds sRGB pixels, which a source profile
+// would misdescribe, so a source with a profile gets a standard sRGB one instead
+import { getSrgbProfile } from './srgbProfile';
+
+export interface MetadataSettings {
+  copyright: boolean;
+  captureDate: boolean;
+  iccProfile: boolean;
+}
+
+export const DEFAULT_METADATA_SETTINGS: MetadataSettings = {
+  copyright: false,
+  captureDate: false,
+  iccProfile: false
+};
+
+interface SourceMetadata {
+  copyright?: string;
+  captureDate?: string;
+  hasIccProfile: boolean;
+}
+
+interface Segment {
+  marker: number;
+  start: number;
+  end: number;
+}
+
+const MARKER = {
+  SOI: 0xd8,
+  SOS: 0xda,
+  APP0: 0xe0,
+  APP1: 0xe1,
+  APP2: 0xe2
+};
+
+const TAG = {
+  DATE_TIME: 0x0132,
+  COPYRIGHT: 0x8298,
+  EXIF_IFD: 0x8769,
+  DATE_TIME_ORIGINAL: 0x9003
+};
+
+const TYPE = {
+  ASCII: 2,
+  LONG: 4
+};
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00];
+const ICC_HEADER = 'ICC_PROFILE\0';
+
+const readBytes = (blob: Blob): Promise<Uint8Array> => {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer().then((buffer) => new Uint8Array(buffer));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+};
+
+const isJpeg = (bytes: Uint8Array): boolean => bytes[0] === 0xff && bytes[1] === MARKER.SOI;
+
+const startsWith = (bytes: Uint8Array, offset: number, prefix: number[] | string): boolean => {
+  for (let i = 0; i < prefix.length; i++) {
+    const expected = typeof prefix === 'string' ? prefix.charCodeAt(i) : prefix[i];
+    if (bytes[offset + i] !== expected) return false;
+  }
+  return true;
+};
+
+// Lists the marker segments before the image data; start includes the marker itself
+const readSegments = (bytes: Uint8Array): Segment[] => {
+  const segments: Segment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === MARKER.SOS) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ marker, start: offset, end: offset + 2 + length });
+    offset += 2 + length;
+  }
+  return segments;
+};
+
+// Reads the ASCII tags we support from a TIFF structure (the body of an Exif APP1 segment)
+const readExifTags = (bytes: Uint8Array, tiffStart: number): Map<number, string> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[tiffStart] === 0x49;
+  const tags = new Map<number, string>();
+
+  // The Exif sub-IFD is only followed from IFD0, so malformed pointers cannot loop
+  const readIfd = (ifdOffset: number, wanted: number[], isIfd0: boolean) => {
+    const start = tiffStart + ifdOffset;
+    if (start + 2 > bytes.length) return;
+    const count = view.getUint16(start, littleEndian);
+
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      if (entry + 12 > bytes.length) return;
+      const tag = view.getUint16(entry, littleEndian);
+      const type = view.getUint16(entry + 2, littleEndian);
+      const length = view.getUint32(entry + 4, littleEndian);
+
+      if (tag === TAG.EXIF_IFD && isIfd0) {
+        readIfd(view.getUint32(entry + 8, littleEndian), [TAG.DATE_TIME_ORIGINAL], false);
+      } else if (type === TYPE.ASCII && wanted.includes(tag)) {
+        const valueStart =
+          length <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, littleEndian);
+        const value = String.fromCharCode(
+          ...Array.from(bytes.subarray(valueStart, valueStart + length))
+        )
+          .replace(/\0+$/, '')
+          .trim();
+        if (value) tags.set(tag, value);
+      }
+    }
+  };
+
+  readIfd(view.getUint32(tiffStart + 4, littleEndian), [TAG.COPYRIGHT, TAG.DATE_TIME], true);
+  return tags;
+};
+
+const extractMetadata = (bytes: Uint8Array): SourceMetadata => {
+  const metadata: SourceMetadata = { hasIccProfile: false };
+  if (!isJpeg(bytes)) return metadata;
+
+  readSegments(bytes).forEach(({ marker, start, end }) => {
+    const body = start + 4;
+    if (marker === MARKER.APP1 && startsWith(bytes, body, EXIF_HEADER)) {
+      const tags = readExifTags(bytes.subarray(0, end), body + EXIF_HEADER.length);
+      metadata.copyright = tags.get(TAG.COPYRIGHT);
+      metadata.captureDate = tags.get(TAG.DATE_TIME_ORIGINAL) || tags.get(TAG.DATE_TIME);
+    } else if (marker === MARKER.APP2 && startsWith(bytes, body, ICC_HEADER)) {
+      metadata.hasIccProfile = true;
+    }
+  });
+
+  return metadata;
+};
+
+const asciiBytes = (value: string): number[] =>
+  Array.from(value)
+    .map((char) => char.charCodeAt(0) & 0x7f)
+    .concat(0);
+
+// Builds a minimal big-endian Exif APP1 segment holding only the given fields
+// Orientation is omitted since exported pixels are already upright
+const buildExifSegment = (copyright?: string, captureDate?: string): Uint8Array => {
+  const ifd0Entries = (copyright ? 1 : 0) + (captureDate ? 1 : 0);
+  const ifd0Size = 2 + ifd0Entries * 12 + 4;
+  const exifIfdSize = captureDate ? 2 + 12 + 4 : 0;
+  const copyrightBytes = copyright ? asciiBytes(copyright) : [];
+  const dateBytes = captureDate ? asciiBytes(captureDate) : [];
+
+  const ifd0Offset = 8;
+  const exifIfdOffset = ifd0Offset + ifd0Size;
+  const copyrightOffset = exifIfdOffset + exifIfdSize;
+  const dateOffset = copyrightOffset + copyrightBytes.length;
+  const tiffSize = dateOffset + dateBytes.length;
+
+  const tiff = new Uint8Array(tiffSize);
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x4d, 0x4d, 0x00, 0x2a]);
+  view.setUint32(4, ifd0Offset);
+
+  const writeEntry = (at: number, tag: number, type: number, count: number, value: number) => {
+    view.setUint16(at, tag);
+    view.setUint16(at + 2, type);
+    view.setUint32(at + 4, count);
+    view.setUint32(at + 8, value);
+  };
+
+  // Entries must be sorted by tag, and values of 4 bytes or less stored inline
+  const writeAscii = (at: number, tag: number, bytes: number[], offset: number) => {
+    if (bytes.length <= 4) {
+      writeEntry(at, tag, TYPE.ASCII, bytes.length, 0);
+      tiff.set(bytes, at + 8);
+    } else {
+      writeEntry(at, tag, TYPE.ASCII, bytes.length, offset);
+      tiff.set(bytes, offset);
+    }
+  };
+
+  view.setUint16(ifd0Offset, ifd0Entries);
+  let entry = ifd0Offset + 2;
+  if (copyright) {
+    writeAscii(entry, TAG.COPYRIGHT, copyrightBytes, copyrightOffset);
+    entry += 12;
+  }
+  if (captureDate) {
+    writeEntry(entry, TAG.EXIF_IFD, TYPE.LONG, 1, exifIfdOffset);
+    view.setUint16(exifIfdOffset, 1);
+    writeAscii(exifIfdOffset + 2, TAG.DATE_TIME_ORIGINAL, dateBytes, dateOffset);
+  }
+
+  const length = 2 + EXIF_HEADER.length + tiffSize;
+  const segment = new Uint8Array(2 + length);
+  segment.set([0xff, MARKER.APP1, length >> 8, length & 0xff]);
+  segment.set(EXIF_HEADER, 4);
+  segment.set(tiff, 4 + EXIF_HEADER.length);
+  return segment;
+};
+
+// An APP2 segment holding the whole sRGB profile as chunk 1 of 1
+const buildIccSegment = (): Uint8Array => {
+  const profile = getSrgbProfile();
+  const length = 2 + ICC_HEADER.length + 2 + profile.length;
+  const segment = new Uint8Array(2 + length);
+  segment.set([0xff, MARKER.APP2, length >> 8, length & 0xff]);
+  segment.set(
+    Array.from(ICC_HEADER, (char) => char.charCodeAt(0)),
+    4
+  );
+  segment.set([1, 1], 4 + ICC_HEADER.length);
+  segment.set(profile, 4 + ICC_HEADER.length + 2);
+  return segment;
+};
+
+export const hasMetadataSelected = (settings: MetadataSettings): boolean =>
+  settings.copyright || settings.captureDate || settings.iccProfile;
+
+// Copies the selected metadata from a JPEG source into an encoded JPEG
+// Anything else is returned unchanged, i.e. with all metadata stripped
+export const applyMetadata = async (
+  output: Blob,
+  source: Blob,
+  settings: MetadataSettings
+): Promise<Blob> => {
+  if (output.type !== 'image/jpeg' || !hasMetadataSelected(settings)) return output;
+
+  let metadata: SourceMetadata;
+  try {
+    metadata = extractMetadata(await readBytes(source));
+  } catch (error) {
+    console.warn('Failed to read source metadata:', error);
+    return output;
+  }
+  const copyright = settings.copyright ? metadata.copyright : undefined;
+  const captureDate = settings.captureDate ? metadata.captureDate : undefined;
+  const iccProfile = settings.iccProfile && metadata.hasIccProfile;
+  if (!copyright && !captureDate && !iccProfile) return output;
+
+  const outputBytes = await readBytes(output);
+  if (!isJpeg(outputBytes)) return output;
+
+  // Keep the JFIF header first, then the new segments, then everything else from the encoder
+  const segments = readSegments(outputBytes);
+  const jfif = segments.find((segment) => segment.marker === MARKER.APP0);
+  const insertAt = jfif && jfif.start === 2 ? jfif.end : 2;
+  const parts: BlobPart[] = [outputBytes.subarray(0, insertAt)];
+
+  if (copyright || captureDate) {
+    parts.push(buildExifSegment(copyright, captureDate));
+  }
+  if (iccProfile) {
+    parts.push(buildIccSegment());
+  }
+
+  // A profile the encoder wrote itself would conflict with ours, so it is dropped
+  let offset = insertAt;
+  segments
+    .filter((segment) => segment.start >= insertAt)
+    .forEach((segment) => {
+      const isIcc =
+        segment.marker === MARKER.APP2 && startsWith(outputBytes, segment.start + 4, ICC_HEADER);
+      if (isIcc && iccProfile) {
+        parts.push(outputBytes.subarray(offset, segment.start));
+        offset = segment.end;
+      }
+    });
+  parts.push(outputBytes.subarray(offset));
+
+  return new Blob(parts, { type: output.type });
+};
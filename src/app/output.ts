@@ -0,0 +1,175 @@
+// output.ts
+import type Cropper from 'cropperjs';
+import { canvasToBlob } from './cropRender';
+import { DEFAULT_METADATA_SETTINGS, MetadataSettings } from './metadata';
+
+export type OutputFormat = 'original' | 'image/jpeg' | 'image/png' | 'image/webp';
+
+// none: raw crop size
+// exact: exactly width x height; a crop of another shape is trimmed to it around its centre
+// max-edge: shrink so neither edge exceeds maxEdge
+// scale: percentage of the raw crop size
+export type ResizeMode = 'none' | 'exact' | 'max-edge' | 'scale';
+
+export interface ResizeSettings {
+  mode: ResizeMode;
+  width: number;
+  height: number;
+  maxEdge: number;
+  scale: number;
+}
+
+export interface OutputSettings {
+  format: OutputFormat;
+  // 0-1, only used by lossy formats
+  quality: number;
+  // Fill colour for transparent areas, only used by JPEG
+  background: string;
+  resize: ResizeSettings;
+  // Metadata copied from the source, only for JPEG to JPEG
+  metadata: MetadataSettings;
+  // Prefix output names with the image's position in the grid order
+  numberFiles: boolean;
+}
+
+export const OUTPUT_SIZE = {
+  MIN: 1,
+  MAX: 16384,
+  SCALE_MIN: 1,
+  SCALE_MAX: 400
+};
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  format: 'original',
+  quality: 0.92,
+  background: '#ffffff',
+  resize: {
+    mode: 'none',
+    width: 512,
+    height: 512,
+    maxEdge: 1200,
+    scale: 100
+  },
+  metadata: DEFAULT_METADATA_SETTINGS,
+  numberFiles: false
+};
+
+// Types the canvas can encode; anything else (e.g. GIF) falls back to PNG
+const ENCODABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const LOSSY_TYPES = ['image/jpeg', 'image/webp'];
+
+// Resolves the MIME type to request from the canvas for a given source file
+export const resolveOutputType = (settings: OutputSettings, sourceType: string): string => {
+  if (settings.format !== 'original') return settings.format;
+  return ENCODABLE_TYPES.includes(sourceType) ? sourceType : 'image/png';
+};
+
+// Fill colour to paint behind transparent pixels, if the output type needs one
+export const getFillColor = (settings: OutputSettings, outputType: string): string | undefined => {
+  return outputType === 'image/jpeg' ? settings.background : undefined;
+};
+
+// Encodes a canvas with the configured type and quality
+// Browsers that cannot encode the requested type return PNG, so callers
+// should name the file from the resulting blob's type
+export const encodeCanvas = (
+  canvas: HTMLCanvasElement,
+  settings: OutputSettings,
+  outputType: string
+): Promise<Blob | null> => {
+  const quality = LOSSY_TYPES.includes(outputType) ? settings.quality : undefined;
+  return canvasToBlob(canvas, outputType, quality);
+};
+
+// Replaces the extension of a filename unless it is already one of the allowed ones
+export const getOutputFilename = (filename: string, extensions: string[]): string => {
+  if (extensions.length === 0) return filename;
+
+  const lastDotIndex = filename.lastIndexOf('.');
+  const base = lastDotIndex > 0 ? filename.slice(0, lastDotIndex) : filename;
+  const extension = lastDotIndex > 0 ? filename.slice(lastDotIndex).toLowerCase() : '';
+
+  return extensions.includes(extension) ? filename : `${base}${extensions[0]}`;
+};
+
+const clampSize = (value: number): number =>
+  Math.max(OUTPUT_SIZE.MIN, Math.min(OUTPUT_SIZE.MAX, Math.round(value)));
+
+// Scales a size down to fit inside a bounding box while keeping its aspect ratio
+const fitWithin = (
+  size: { width: number; height: number },
+  box: { width: number; height: number }
+): { width: number; height: number } => {
+  const ratio = Math.min(box.width / size.width, box.height / size.height);
+  return { width: clampSize(size.width * ratio), height: clampSize(size.height * ratio) };
+};
+
+// Computes the final output size for a crop, mirroring how Cropper.js
+// sizes getCroppedCanvas() for the options from getCroppedCanvasOptions()
+export const getOutputSize = (
+  crop: { width: number; height: number },
+  resize: ResizeSettings
+): { width: number; height: number } => {
+  const size = { width: Math.round(crop.width), height: Math.round(crop.height) };
+
+  switch (resize.mode) {
+    case 'exact':
+      return { width: clampSize(resize.width), height: clampSize(resize.height) };
+    case 'max-edge':
+      return Math.max(size.width, size.height) > resize.maxEdge
+        ? fitWithin(size, { width: resize.maxEdge, height: resize.maxEdge })
+        : size;
+    case 'scale':
+      return {
+        width: clampSize((size.width * resize.scale) / 100),
+        height: clampSize((size.height * resize.scale) / 100)
+      };
+    default:
+      return size;
+  }
+};
+
+// Trims a crop to the shape of an exact output size, keeping its centre, so the output
+// is neither stretched nor letterboxed; other modes keep the crop as it is
+export const fitCropToOutput = <T extends { x: number; y: number; width: number; height: number }>(
+  crop: T,
+  resize: ResizeSettings
+): T => {
+  if (resize.mode !== 'exact') return crop;
+  const target = resize.width / resize.height;
+  const width = Math.min(crop.width, crop.height * target);
+  const height = Math.min(crop.height, crop.width / target);
+  return {
+    ...crop,
+    x: crop.x + (crop.width - width) / 2,
+    y: crop.y + (crop.height - height) / 2,
+    width,
+    height
+  };
+};
+
+// Builds the sizing options passed to Cropper.js getCroppedCanvas()
+// Exact sizes are not supported there, since Cropper.js keeps the crop's aspect ratio;
+// those crops are drawn from the source with fitCropToOutput() instead
+export const getCroppedCanvasOptions = (
+  crop: { width: number; height: number },
+  resize: ResizeSettings
+): Cropper.GetCroppedCanvasOptions => {
+  const options: Cropper.GetCroppedCanvasOptions = { imageSmoothingQuality: 'high' };
+
+  switch (resize.mode) {
+    case 'max-edge':
+      options.maxWidth = resize.maxEdge;
+      options.maxHeight = resize.maxEdge;
+      break;
+    case 'scale': {
+      const size = getOutputSize(crop, resize);
+      options.width = size.width;
+      options.height = size.height;
+      break;
+    }
+  }
+
+  return options;
+};
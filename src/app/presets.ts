@@ -0,0 +1,86 @@
+// presets.ts
+// Named crop presets, kept in localStorage and exchanged as JSON files
+import { CropSettings } from './types';
+
+export interface CropPreset {
+  name: string;
+  // Crop rectangle in source pixels
+  settings: CropSettings;
+  // Aspect ratio selection value from the crop modal
+  aspect: string;
+}
+
+const STORAGE_KEY = 'gic-crop-presets';
+const FILE_VERSION = 1;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isCropPreset = (value: unknown): value is CropPreset => {
+  if (!value || typeof value !== 'object') return false;
+  const preset = value as Partial<CropPreset>;
+  const settings = preset.settings as Partial<CropSettings> | undefined;
+  return (
+    typeof preset.name === 'string' &&
+    preset.name.trim().length > 0 &&
+    typeof preset.aspect === 'string' &&
+    !!settings &&
+    isFiniteNumber(settings.x) &&
+    isFiniteNumber(settings.y) &&
+    isFiniteNumber(settings.width) &&
+    isFiniteNumber(settings.height) &&
+    isFiniteNumber(settings.aspectRatio) &&
+    settings.width > 0 &&
+    settings.height > 0
+  );
+};
+
+export const loadPresets = (): CropPreset[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isCropPreset) : [];
+  } catch (error) {
+    console.warn('Failed to load crop presets:', error);
+    return [];
+  }
+};
+
+export const savePresets = (presets: CropPreset[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn('Failed to save crop presets:', error);
+  }
+};
+
+// Adds or replaces presets by name, keeping the list sorted
+export const mergePresets = (existing: CropPreset[], incoming: CropPreset[]): CropPreset[] => {
+  const byName = new Map(existing.map((preset) => [preset.name, preset]));
+  incoming.forEach((preset) => byName.set(preset.name, preset));
+  return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const serializePresets = (presets: CropPreset[]): string => {
+  return JSON.stringify({ version: FILE_VERSION, presets }, null, 2);
+};
+
+// Parses an exported presets file, throwing if it contains no valid presets
+export const parsePresets = (text: string): CropPreset[] => {
+  const parsed = JSON.parse(text);
+  const list: unknown[] = Array.isArray(parsed) ? parsed : parsed?.presets;
+  if (!Array.isArray(list)) {
+    throw new Error('Presets file has no presets list');
+  }
+
+  const presets = list.filter(isCropPreset).map((preset) => ({
+    name: preset.name.trim(),
+    settings: preset.settings,
+    aspect: preset.aspect
+  }));
+  if (presets.length === 0) {
+    throw new Error('Presets file has no valid presets');
+  }
+  return presets;
+};
@@ -0,0 +1,73 @@
+// regions.ts
+// Named crop regions, for cutting several outputs (e.g. headshots and a banner) from one image
+// A region set can be kept as a template and mapped onto the other images in the batch
+import { parseRatio } from './aspectRatios';
+import { Dimensions, mapGlobalCrop } from './globalCrop';
+import { OUTPUT_SIZE, ResizeSettings } from './output';
+import { CropRegion } from './types';
+
+export interface RegionTemplate {
+  regions: CropRegion[];
+  // Dimensions of the image the regions were drawn on
+  source: Dimensions;
+}
+
+// Characters that are unsafe in filenames on common file systems
+const UNSAFE_NAME_CHARACTERS = /[\\/:*?"<>|\s]+/g;
+
+let regionCounter = 0;
+
+export const createRegionId = (): string => `region-${Date.now()}-${++regionCounter}`;
+
+// Returns "Region N" with the first N not used by another region
+export const getNextRegionName = (regions: CropRegion[]): string => {
+  const names = new Set(regions.map((region) => region.name.toLowerCase()));
+  let index = regions.length + 1;
+  while (names.has(`region ${index}`)) index++;
+  return `Region ${index}`;
+};
+
+// "photo.jpg" and "Head shot" become "photo-Head-shot.jpg"
+export const addRegionSuffix = (filename: string, regionName: string): string => {
+  const suffix = regionName
+    .trim()
+    .replace(UNSAFE_NAME_CHARACTERS, '-')
+    .replace(/^-+|-+$/g, '');
+  if (!suffix) return filename;
+
+  const lastDotIndex = filename.lastIndexOf('.');
+  const base = lastDotIndex > 0 ? filename.slice(0, lastDotIndex) : filename;
+  const extension = lastDotIndex > 0 ? filename.slice(lastDotIndex) : '';
+  return `${base}-${suffix}${extension}`;
+};
+
+// A region's own output size is an exact size; without one the Output Settings apply
+// A side left at 0 is derived from the region's aspect ratio
+export const getRegionResize = (region: CropRegion, resize: ResizeSettings): ResizeSettings => {
+  const { width, height } = region.outputSize || { width: 0, height: 0 };
+  if (!width && !height) return resize;
+  const ratio = region.crop.width / region.crop.height;
+  const clamp = (value: number) =>
+    Math.max(OUTPUT_SIZE.MIN, Math.min(OUTPUT_SIZE.MAX, Math.round(value)));
+  return {
+    ...resize,
+    mode: 'exact',
+    width: clamp(width || height * ratio),
+    height: clamp(height || width / ratio)
+  };
+};
+
+// Maps template regions onto an image of another size as fractions of the source,
+// keeping fixed aspect ratios intact
+export const applyRegionTemplate = (template: RegionTemplate, to: Dimensions): CropRegion[] =>
+  template.regions.map((region) => ({
+    ...region,
+    id: createRegionId(),
+    crop: mapGlobalCrop(
+      region.crop,
+      template.source,
+      to,
+      'relative',
+      parseRatio(region.aspect) || undefined
+    )
+  }));
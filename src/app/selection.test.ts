@@ -0,0 +1,50 @@
+import { pruneSelection, selectRange, toggleSelection } from './selection';
+
+const ORDER = ['a', 'b', 'c', 'd', 'e'];
+
+describe('toggleSelection', () => {
+  it('adds and removes an id', () => {
+    expect(toggleSelection(['a'], 'b')).toEqual(['a', 'b']);
+    expect(toggleSelection(['a', 'b'], 'a')).toEqual(['b']);
+  });
+});
+
+describe('selectRange', () => {
+  it.each([
+    ['forwards', 'b', 'd', ['b', 'c', 'd']],
+    ['backwards', 'd', 'b', ['d', 'b', 'c']]
+  ])('selects a range %s from the anchor', (_, anchorId, id, expected) => {
+    expect(selectRange([anchorId], ORDER, anchorId, id, true)).toEqual(expected);
+  });
+
+  it('keeps other selected ids without duplicating them', () => {
+    expect(selectRange(['e', 'c'], ORDER, 'a', 'c', true)).toEqual(['e', 'c', 'a', 'b']);
+  });
+
+  it('deselects a range and leaves the rest selected', () => {
+    expect(selectRange(['a', 'b', 'c', 'd', 'e'], ORDER, 'd', 'b', false)).toEqual(['a', 'e']);
+  });
+
+  it('follows the grid order rather than the order of selection', () => {
+    expect(selectRange([], ['c', 'a', 'b'], 'c', 'b', true)).toEqual(['c', 'a', 'b']);
+  });
+
+  it.each([
+    ['no anchor', null],
+    ['an anchor that is no longer shown', 'x']
+  ])('changes only the clicked id with %s', (_, anchorId) => {
+    expect(selectRange(['a'], ORDER, anchorId, 'c', true)).toEqual(['a', 'c']);
+    expect(selectRange(['a', 'c'], ORDER, anchorId, 'c', false)).toEqual(['a']);
+  });
+});
+
+describe('pruneSelection', () => {
+  it('drops ids of removed images', () => {
+    expect(pruneSelection(['a', 'b', 'c'], new Set(['a', 'c']))).toEqual(['a', 'c']);
+  });
+
+  it('returns the same list when nothing was removed', () => {
+    const selected = ['a', 'b'];
+    expect(pruneSelection(selected, new Set(ORDER))).toBe(selected);
+  });
+});
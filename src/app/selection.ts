@@ -0,0 +1,30 @@
+// selection.ts
+// Multi-selection of grid cards, kept as a list of image ids
+// Ranges follow the grid order, so shift-click selects what the user sees between two cards
+
+export const toggleSelection = (selected: string[], id: string): string[] =>
+  selected.includes(id) ? selected.filter((value) => value !== id) : [...selected, id];
+
+// Selects or deselects every card between the anchor and the clicked card, both included
+// Without a visible anchor only the clicked card changes
+export const selectRange = (
+  selected: string[],
+  orderedIds: string[],
+  anchorId: string | null,
+  id: string,
+  isSelecting: boolean
+): string[] => {
+  const from = anchorId ? orderedIds.indexOf(anchorId) : -1;
+  const to = orderedIds.indexOf(id);
+  const range =
+    from === -1 || to === -1 ? [id] : orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+
+  if (!isSelecting) return selected.filter((value) => !range.includes(value));
+  return selected.concat(range.filter((value) => !selected.includes(value)));
+};
+
+// Drops ids of images that no longer exist; returns the same list when nothing changed
+export const pruneSelection = (selected: string[], existingIds: Set<string>): string[] => {
+  const pruned = selected.filter((id) => existingIds.has(id));
+  return pruned.length === selected.length ? selected : pruned;
+};
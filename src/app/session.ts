@@ -0,0 +1,228 @@
+// session.ts
+// Persists the working session in IndexedDB so a page refresh does not lose it
+// Source files are written once when added, crop metadata is rewritten on change
+import type Cropper from 'cropperjs';
+import { CropHistoryEntry, CropRegion, CropSettings, ImageData, ImageTransform } from './types';
+import { Dimensions, GlobalCropScaling } from './globalCrop';
+import { RegionTemplate } from './regions';
+import { GridOrder } from './gridOrder';
+
+const DB_NAME = 'group-image-cropper';
+const DB_VERSION = 1;
+
+const STORES = {
+  FILES: 'files',
+  IMAGES: 'images',
+  STATE: 'state'
+} as const;
+
+const STATE_KEY = 'session';
+
+export interface SessionState {
+  globalCropSettings: CropSettings | null;
+  // Optional so sessions saved before relative global crops still load
+  globalCropSource?: Dimensions | null;
+  globalCropScaling?: GlobalCropScaling;
+  isPerImageCrop: boolean;
+  selectedAspectRatio: string;
+  regionTemplate?: RegionTemplate | null;
+  gridOrder?: GridOrder;
+}
+
+interface StoredFile {
+  id: string;
+  blob: Blob;
+  name: string;
+  type: string;
+  lastModified: number;
+}
+
+interface StoredImage {
+  id: string;
+  order: number;
+  cropped: boolean;
+  cropHistory: CropHistoryEntry[];
+  cropSettings?: CropSettings;
+  canvasData?: Cropper.CanvasData;
+  transform?: ImageTransform;
+  regions?: CropRegion[];
+  dimensions?: { width: number; height: number };
+  addedAt?: number;
+  contentHash?: string;
+  perceptualHash?: string | null;
+}
+
+// A restored image without object URLs, which the caller creates and tracks
+export type RestoredImage = Omit<ImageData, 'url' | 'objectUrl'>;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not supported'));
+      return;
+    }
+
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.FILES)) {
+        db.createObjectStore(STORES.FILES, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.IMAGES)) {
+        db.createObjectStore(STORES.IMAGES, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.STATE)) {
+        db.createObjectStore(STORES.STATE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+
+  return dbPromise;
+};
+
+export const loadSession = async (): Promise<{
+  state: SessionState | null;
+  images: RestoredImage[];
+}> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.FILES, STORES.IMAGES, STORES.STATE], 'readonly');
+
+  const [files, records, state] = await Promise.all([
+    requestToPromise<StoredFile[]>(transaction.objectStore(STORES.FILES).getAll()),
+    requestToPromise<StoredImage[]>(transaction.objectStore(STORES.IMAGES).getAll()),
+    requestToPromise<SessionState | undefined>(transaction.objectStore(STORES.STATE).get(STATE_KEY))
+  ]);
+
+  const filesById = new Map(files.map((file) => [file.id, file]));
+  const images: RestoredImage[] = [];
+
+  records
+    .sort((a, b) => a.order - b.order)
+    .forEach((record) => {
+      const stored = filesById.get(record.id);
+      if (!stored) return;
+      images.push({
+        id: record.id,
+        file: new File([stored.blob], stored.name, {
+          type: stored.type,
+          lastModified: stored.lastModified
+        }),
+        cropped: record.cropped,
+        cropHistory: record.cropHistory,
+        cropSettings: record.cropSettings,
+        canvasData: record.canvasData,
+        transform: record.transform,
+        regions: record.regions,
+        dimensions: record.dimensions,
+        // Images saved before import times were recorded keep their list position
+        addedAt: record.addedAt ?? record.order,
+        contentHash: record.contentHash,
+        perceptualHash: record.perceptualHash
+      });
+    });
+
+  return { state: state || null, images };
+};
+
+// Mirrors the current image list into the database
+// New files are written, removed ones deleted, and all crop metadata replaced
+export const saveImages = async (images: ImageData[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.FILES, STORES.IMAGES], 'readwrite');
+  const done = transactionDone(transaction);
+  const fileStore = transaction.objectStore(STORES.FILES);
+  const imageStore = transaction.objectStore(STORES.IMAGES);
+
+  const storedIds = new Set(
+    (await requestToPromise(fileStore.getAllKeys())).map((key) => String(key))
+  );
+  const currentIds = new Set(images.map((image) => image.id));
+
+  images.forEach((image, order) => {
+    if (!storedIds.has(image.id)) {
+      const stored: StoredFile = {
+        id: image.id,
+        blob: image.file,
+        name: image.file.name,
+        type: image.file.type,
+        lastModified: image.file.lastModified
+      };
+      fileStore.put(stored);
+    }
+
+    const record: StoredImage = {
+      id: image.id,
+      order,
+      cropped: image.cropped,
+      cropHistory: image.cropHistory,
+      cropSettings: image.cropSettings,
+      canvasData: image.canvasData,
+      transform: image.transform,
+      regions: image.regions,
+      dimensions: image.dimensions,
+      addedAt: image.addedAt,
+      contentHash: image.contentHash,
+      perceptualHash: image.perceptualHash
+    };
+    imageStore.put(record);
+  });
+
+  storedIds.forEach((id) => {
+    if (!currentIds.has(id)) {
+      fileStore.delete(id);
+      imageStore.delete(id);
+    }
+  });
+
+  await done;
+};
+
+export const saveSessionState = async (state: SessionState): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.STATE, 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(STORES.STATE).put(state, STATE_KEY);
+  await done;
+};
+
+export const clearSession = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.FILES, STORES.IMAGES, STORES.STATE], 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(STORES.FILES).clear();
+  transaction.objectStore(STORES.IMAGES).clear();
+  transaction.objectStore(STORES.STATE).clear();
+  await done;
+};
+
+// Returns the fraction of the origin's storage quota in use, if the browser reports it
+export const getStorageUsage = async (): Promise<number | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  if (!usage || !quota) return null;
+  return usage / quota;
+};
@@ -0,0 +1,127 @@
+// srgbProfile.ts
+// Builds a standard sRGB ICC profile (version 2.1, display class) to tag exported JPEGs with
+// Browsers convert images to sRGB when drawing them on a default canvas, so this is the
+// profile that matches the exported pixels, whatever profile the source carried
+
+// D50 white point and Bradford-adapted sRGB primaries, as in the ICC's own sRGB profiles
+const D50: [number, number, number] = [0.9642, 1, 0.8249];
+const PRIMARIES: Record<'rXYZ' | 'gXYZ' | 'bXYZ', [number, number, number]> = {
+  rXYZ: [0.4360747, 0.2225045, 0.0139322],
+  gXYZ: [0.3850649, 0.7168786, 0.0971045],
+  bXYZ: [0.1430804, 0.0606169, 0.7141733]
+};
+
+const DESCRIPTION = 'sRGB IEC61966-2.1';
+const COPYRIGHT = 'No copyright, use freely';
+const CURVE_POINTS = 1024;
+const HEADER_SIZE = 128;
+
+const ascii = (value: string): number[] => Array.from(value, (char) => char.charCodeAt(0));
+
+const uint32 = (value: number): number[] => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff
+];
+
+const uint16 = (value: number): number[] => [(value >>> 8) & 0xff, value & 0xff];
+
+const s15Fixed16 = (value: number): number[] => uint32(Math.round(value * 65536));
+
+const xyzType = ([x, y, z]: [number, number, number]): number[] => [
+  ...ascii('XYZ '),
+  ...uint32(0),
+  ...s15Fixed16(x),
+  ...s15Fixed16(y),
+  ...s15Fixed16(z)
+];
+
+// Version 2 textDescriptionType: ASCII only, with empty Unicode and ScriptCode parts
+const descriptionType = (text: string): number[] => [
+  ...ascii('desc'),
+  ...uint32(0),
+  ...uint32(text.length + 1),
+  ...ascii(text),
+  0,
+  ...uint32(0),
+  ...uint32(0),
+  ...uint16(0),
+  0,
+  ...new Array(67).fill(0)
+];
+
+const textType = (text: string): number[] => [...ascii('text'), ...uint32(0), ...ascii(text), 0];
+
+// The sRGB transfer function, sampled since version 2 profiles have no parametric curves
+const curveType = (): number[] => {
+  const bytes = [...ascii('curv'), ...uint32(0), ...uint32(CURVE_POINTS)];
+  for (let i = 0; i < CURVE_POINTS; i++) {
+    const value = i / (CURVE_POINTS - 1);
+    const linear = value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    bytes.push(...uint16(Math.round(linear * 65535)));
+  }
+  return bytes;
+};
+
+let cachedProfile: Uint8Array | null = null;
+
+export const getSrgbProfile = (): Uint8Array => {
+  if (cachedProfile) return cachedProfile;
+
+  const curve = curveType();
+  // The three TRC tags share one curve, as tag table entries may point at the same data
+  const tags: Array<[string, number[]]> = [
+    ['desc', descriptionType(DESCRIPTION)],
+    ['cprt', textType(COPYRIGHT)],
+    ['wtpt', xyzType(D50)],
+    ['rXYZ', xyzType(PRIMARIES.rXYZ)],
+    ['gXYZ', xyzType(PRIMARIES.gXYZ)],
+    ['bXYZ', xyzType(PRIMARIES.bXYZ)],
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve]
+  ];
+
+  const table: number[] = uint32(tags.length);
+  const data: number[] = [];
+  const offsets = new Map<number[], number>();
+  const dataStart = HEADER_SIZE + 4 + tags.length * 12;
+  tags.forEach(([signature, body]) => {
+    if (!offsets.has(body)) {
+      offsets.set(body, dataStart + data.length);
+      data.push(...body);
+      // Tag data starts on 4-byte boundaries
+      while (data.length % 4 !== 0) data.push(0);
+    }
+    table.push(...ascii(signature), ...uint32(offsets.get(body) as number), ...uint32(body.length));
+  });
+
+  const size = dataStart + data.length;
+  const header = [
+    ...uint32(size),
+    ...uint32(0),
+    ...uint32(0x02100000),
+    ...ascii('mntr'),
+    ...ascii('RGB '),
+    ...ascii('XYZ '),
+    // Creation date: 2024-01-01 00:00:00
+    ...uint16(2024),
+    ...uint16(1),
+    ...uint16(1),
+    ...uint16(0),
+    ...uint16(0),
+    ...uint16(0),
+    ...ascii('acsp'),
+    ...new Array(24).fill(0),
+    // Perceptual rendering intent, then the PCS illuminant
+    ...uint32(0),
+    ...s15Fixed16(D50[0]),
+    ...s15Fixed16(D50[1]),
+    ...s15Fixed16(D50[2])
+  ];
+  while (header.length < HEADER_SIZE) header.push(0);
+
+  cachedProfile = new Uint8Array([...header, ...table, ...data]);
+  return cachedProfile;
+};
@@ -0,0 +1,227 @@
+// thumbnails.ts
+// Generates small grid thumbnails so full-resolution sources are never drawn in the grid
+// createImageBitmap decodes and resizes off the main thread where the browser supports it
+// Crop previews are drawn from the thumbnail too, never from the full-resolution source
+import {
+  canvasToBlob,
+  createOrientedBitmap,
+  getTransformedSize,
+  loadImageElement,
+  releaseCanvas,
+  renderCropToCanvas
+} from './cropRender';
+import { CropDimensions, ImageTransform } from './types';
+
+export const THUMBNAIL = {
+  // Twice the card's 150px image height for high-DPI screens
+  HEIGHT: 300,
+  TYPE: 'image/webp',
+  QUALITY: 0.8,
+  CONCURRENCY: 2
+};
+
+// outline: the whole image with the crop marked, cropped: only the cropped area
+export type CropPreviewMode = 'outline' | 'cropped';
+
+export interface CropPreview {
+  crop: CropDimensions;
+  // Upright source size the crop was drawn on, as recorded at import
+  size: { width: number; height: number };
+  transform?: ImageTransform;
+  mode: CropPreviewMode;
+}
+
+const OUTLINE = {
+  SHADE: 'rgba(0, 0, 0, 0.55)',
+  COLOR: '#48BB78',
+  WIDTH: 2
+};
+
+const cache = new Map<string, Promise<string>>();
+const resolvedUrls = new Map<string, string>();
+
+// One preview per image and mode, replaced when the crop changes
+const previews = new Map<string, { key: string; pending: Promise<string> }>();
+
+// Simple FIFO so a large batch does not decode every image at once
+const queue: Array<() => void> = [];
+let active = 0;
+
+const runQueued = <T>(task: () => Promise<T>): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    const run = () => {
+      active++;
+      task()
+        .then(resolve, reject)
+        .finally(() => {
+          active--;
+          const next = queue.shift();
+          if (next) next();
+        });
+    };
+
+    if (active < THUMBNAIL.CONCURRENCY) {
+      run();
+    } else {
+      queue.push(run);
+    }
+  });
+};
+
+const decodeScaled = async (file: File, url: string): Promise<ImageBitmap | HTMLImageElement> => {
+  if ('createImageBitmap' in window) {
+    try {
+      return await createOrientedBitmap(file, {
+        resizeHeight: THUMBNAIL.HEIGHT,
+        resizeQuality: 'medium'
+      });
+    } catch (error) {
+      // Some browsers reject the resize options; fall through to an image element
+      console.warn('createImageBitmap failed, using image element:', error);
+    }
+  }
+  return loadImageElement(url);
+};
+
+const generateThumbnail = async (file: File, url: string): Promise<string> => {
+  const source = await decodeScaled(file, url);
+  const scale = Math.min(1, THUMBNAIL.HEIGHT / source.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+
+  try {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is unavailable');
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    const blob = await canvasToBlob(canvas, THUMBNAIL.TYPE, THUMBNAIL.QUALITY);
+    if (!blob) throw new Error('Thumbnail encoding failed');
+    return URL.createObjectURL(blob);
+  } finally {
+    releaseCanvas(canvas);
+    if ('close' in source) {
+      source.close();
+    }
+  }
+};
+
+// Returns a cached thumbnail URL for an image, generating it on first request
+export const getThumbnail = (id: string, file: File, url: string): Promise<string> => {
+  let pending = cache.get(id);
+  if (!pending) {
+    pending = runQueued(() => generateThumbnail(file, url)).then((thumbnailUrl) => {
+      // The image may have been released while the thumbnail was generating
+      if (!cache.has(id)) {
+        URL.revokeObjectURL(thumbnailUrl);
+      } else {
+        resolvedUrls.set(id, thumbnailUrl);
+      }
+      return thumbnailUrl;
+    });
+    pending.catch(() => cache.delete(id));
+    cache.set(id, pending);
+  }
+  return pending;
+};
+
+// Synchronous lookup so remounted cards can render without a loading state
+export const getCachedThumbnail = (id: string): string | undefined => resolvedUrls.get(id);
+
+const getPreviewKey = (preview: CropPreview): string =>
+  JSON.stringify([preview.crop, preview.transform || null]);
+
+const releasePreview = (previewId: string) => {
+  const entry = previews.get(previewId);
+  if (!entry) return;
+  previews.delete(previewId);
+  entry.pending.then(URL.revokeObjectURL, () => undefined);
+};
+
+// The crop is scaled from source pixels down to the thumbnail, then cut out as in the export
+const renderPreview = async (thumbnailUrl: string, preview: CropPreview): Promise<string> => {
+  const img = await loadImageElement(thumbnailUrl);
+  const scale = img.naturalWidth / preview.size.width;
+  const crop = {
+    x: preview.crop.x * scale,
+    y: preview.crop.y * scale,
+    width: Math.max(1, preview.crop.width * scale),
+    height: Math.max(1, preview.crop.height * scale)
+  };
+  const bounds = getTransformedSize(
+    { width: img.naturalWidth, height: img.naturalHeight },
+    preview.transform
+  );
+  const canvas = renderCropToCanvas(
+    img,
+    preview.mode === 'cropped' ? crop : { x: 0, y: 0, ...bounds },
+    undefined,
+    undefined,
+    preview.transform
+  );
+
+  try {
+    if (preview.mode === 'outline') {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas 2D context is unavailable');
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.fillStyle = OUTLINE.SHADE;
+      ctx.beginPath();
+      ctx.rect(0, 0, canvas.width, canvas.height);
+      ctx.rect(crop.x, crop.y, crop.width, crop.height);
+      ctx.fill('evenodd');
+      ctx.strokeStyle = OUTLINE.COLOR;
+      ctx.lineWidth = OUTLINE.WIDTH;
+      ctx.strokeRect(crop.x, crop.y, crop.width, crop.height);
+    }
+
+    const blob = await canvasToBlob(canvas, THUMBNAIL.TYPE, THUMBNAIL.QUALITY);
+    if (!blob) throw new Error('Preview encoding failed');
+    return URL.createObjectURL(blob);
+  } finally {
+    releaseCanvas(canvas);
+  }
+};
+
+// Returns a URL for a small render of a saved crop, generating the thumbnail first if needed
+export const getCropPreview = (
+  id: string,
+  file: File,
+  url: string,
+  preview: CropPreview
+): Promise<string> => {
+  const previewId = `${id}:${preview.mode}`;
+  const key = getPreviewKey(preview);
+  const existing = previews.get(previewId);
+  if (existing && existing.key === key) return existing.pending;
+  releasePreview(previewId);
+
+  const pending = getThumbnail(id, file, url)
+    .then((thumbnailUrl) => runQueued(() => renderPreview(thumbnailUrl, preview)))
+    .then((previewUrl) => {
+      // Released or replaced while rendering
+      if (previews.get(previewId)?.key !== key) {
+        URL.revokeObjectURL(previewUrl);
+      }
+      return previewUrl;
+    });
+  pending.catch(() => {
+    if (previews.get(previewId)?.key === key) previews.delete(previewId);
+  });
+  previews.set(previewId, { key, pending });
+  return pending;
+};
+
+export const releaseThumbnail = (id: string) => {
+  const url = resolvedUrls.get(id);
+  if (url) URL.revokeObjectURL(url);
+  resolvedUrls.delete(id);
+  cache.delete(id);
+  releasePreview(`${id}:outline`);
+  releasePreview(`${id}:cropped`);
+};
+
+export const releaseAllThumbnails = () => {
+  Array.from(cache.keys()).forEach(releaseThumbnail);
+  Array.from(previews.keys()).forEach(releasePreview);
+};
@@ -0,0 +1,72 @@
+// types.ts
+import type Cropper from 'cropperjs';
+
+export interface CropDimensions {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CropSettings extends CropDimensions {
+  aspectRatio: number;
+}
+
+// Rotation and flip applied before cropping
+// rotate is a multiple of 90, straighten a fine angle in degrees (-45 to 45),
+// scaleX/scaleY are 1 or -1 for horizontal/vertical flips
+export interface ImageTransform {
+  rotate: number;
+  straighten: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+// A completed crop, with the size of the image that was actually written
+export interface CropHistoryEntry extends CropDimensions {
+  outputWidth?: number;
+  outputHeight?: number;
+  transform?: ImageTransform;
+  // Name of the region the crop was cut for, if any
+  region?: string;
+  // Locked ratio at the time (0 or missing for free), so the crop can be reopened as it was
+  aspectRatio?: number;
+  // When the output was written (ms since epoch), its MIME type and file name
+  timestamp?: number;
+  format?: string;
+  filename?: string;
+}
+
+// One of several named outputs cut from the same image
+// outputSize replaces the Output Settings resize with a target size when set,
+// a side left at 0 follows the crop's aspect ratio
+export interface CropRegion {
+  id: string;
+  name: string;
+  crop: CropSettings;
+  // Aspect ratio selection value from the crop modal
+  aspect: string;
+  outputSize?: { width: number; height: number };
+}
+
+// url and objectUrl both point to the same resource initially
+// url is preserved for history while objectUrl is used for cleanup
+export interface ImageData {
+  id: string;
+  file: File;
+  url: string;
+  objectUrl: string;
+  cropped: boolean;
+  cropHistory: CropHistoryEntry[];
+  cropSettings?: CropSettings;
+  canvasData?: Cropper.CanvasData;
+  // Crop coordinates are relative to the bounding box of the transformed image
+  transform?: ImageTransform;
+  regions?: CropRegion[];
+  // Upright size before any transform, and when the image was imported (ms since epoch)
+  dimensions?: { width: number; height: number };
+  addedAt?: number;
+  // SHA-256 of the file bytes, and a difference hash (null if the image could not be drawn)
+  contentHash?: string;
+  perceptualHash?: string | null;
+}
@@ -0,0 +1,44 @@
+import { createUndoStack, pushUndo, redo, undo, UndoStack } from './undoStack';
+
+const pushAll = (stack: UndoStack<number>, count: number) => {
+  let next = stack;
+  for (let i = 1; i <= count; i++) next = pushUndo(next, i);
+  return next;
+};
+
+describe('undo stack', () => {
+  it('undoes and redoes changes in order', () => {
+    const stack = pushAll(createUndoStack<number>(), 2);
+
+    const undone = undo(stack);
+    expect(undone?.entry).toBe(2);
+    expect(undone?.stack).toEqual({ past: [1], future: [2] });
+
+    const redone = redo(undone!.stack);
+    expect(redone?.entry).toBe(2);
+    expect(redone?.stack).toEqual({ past: [1, 2], future: [] });
+  });
+
+  it('returns null when there is nothing to undo or redo', () => {
+    const stack = createUndoStack<number>();
+    expect(undo(stack)).toBeNull();
+    expect(redo(stack)).toBeNull();
+    expect(redo(pushUndo(stack, 1))).toBeNull();
+  });
+
+  it('keeps only the last 50 changes', () => {
+    const stack = pushAll(createUndoStack<number>(), 60);
+    expect(stack.past).toHaveLength(50);
+    expect(stack.past[0]).toBe(11);
+    expect(stack.past[49]).toBe(60);
+  });
+
+  it('clears the redo history when a new change is pushed', () => {
+    const undone = undo(undo(pushAll(createUndoStack<number>(), 3))!.stack)!;
+    expect(undone.stack.future).toEqual([2, 3]);
+
+    const stack = pushUndo(undone.stack, 4);
+    expect(stack).toEqual({ past: [1, 4], future: [] });
+    expect(redo(stack)).toBeNull();
+  });
+});
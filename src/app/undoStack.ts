@@ -0,0 +1,32 @@
+// undoStack.ts
+// Bounded undo/redo history, kept as immutable values for React state
+// Each entry is a change that the caller knows how to revert and reapply
+
+export interface UndoStack<T> {
+  past: T[];
+  future: T[];
+}
+
+const UNDO_LIMIT = 50;
+
+export const createUndoStack = <T>(): UndoStack<T> => ({ past: [], future: [] });
+
+// Adds a change; anything undone before it can no longer be redone
+export const pushUndo = <T>(stack: UndoStack<T>, entry: T): UndoStack<T> => ({
+  past: [...stack.past, entry].slice(-UNDO_LIMIT),
+  future: []
+});
+
+// Returns the change to revert, or null if there is nothing to undo
+export const undo = <T>(stack: UndoStack<T>): { stack: UndoStack<T>; entry: T } | null => {
+  if (stack.past.length === 0) return null;
+  const entry = stack.past[stack.past.length - 1];
+  return { stack: { past: stack.past.slice(0, -1), future: [entry, ...stack.future] }, entry };
+};
+
+// Returns the change to reapply, or null if there is nothing to redo
+export const redo = <T>(stack: UndoStack<T>): { stack: UndoStack<T>; entry: T } | null => {
+  if (stack.future.length === 0) return null;
+  const entry = stack.future[0];
+  return { stack: { past: [...stack.past, entry], future: stack.future.slice(1) }, entry };
+};
@@ -0,0 +1,109 @@
+// useVirtualGrid.ts
+// Windowing for a fixed-height card grid: only rows near the viewport are mounted
+// and the rest are replaced by top/bottom padding of the same height
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface VirtualGridOptions {
+  itemCount: number;
+  minItemWidth: number;
+  itemHeight: number;
+  gap: number;
+  overscanRows?: number;
+}
+
+// Finds the nearest scrolling ancestor, falling back to the document scroller
+const getScrollParent = (element: HTMLElement | null): HTMLElement | null => {
+  let node = element?.parentElement || null;
+  while (node) {
+    const { overflowY } = window.getComputedStyle(node);
+    if (overflowY === 'auto' || overflowY === 'scroll') return node;
+    node = node.parentElement;
+  }
+  return null;
+};
+
+export const useVirtualGrid = ({
+  itemCount,
+  minItemWidth,
+  itemHeight,
+  gap,
+  overscanRows = 2
+}: VirtualGridOptions) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({
+    width: 0,
+    top: 0,
+    bottom: typeof window !== 'undefined' ? window.innerHeight : 0
+  });
+
+  // Measures the visible part of the container in its own coordinates
+  const measure = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const scrollParent = getScrollParent(container);
+    const parentTop = scrollParent ? scrollParent.getBoundingClientRect().top : 0;
+    const parentHeight = scrollParent ? scrollParent.clientHeight : window.innerHeight;
+    const offset = container.getBoundingClientRect().top - parentTop;
+
+    setViewport((prev) => {
+      const next = {
+        width: container.clientWidth,
+        top: Math.max(0, -offset),
+        bottom: Math.max(0, parentHeight - offset)
+      };
+      return prev.width === next.width && prev.top === next.top && prev.bottom === next.bottom
+        ? prev
+        : next;
+    });
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let frame = 0;
+    const scheduleMeasure = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(measure);
+    };
+
+    const scrollTarget: HTMLElement | Window = getScrollParent(container) || window;
+    scrollTarget.addEventListener('scroll', scheduleMeasure, { passive: true });
+    window.addEventListener('resize', scheduleMeasure);
+
+    const resizeObserver =
+      typeof ResizeObserver !== 'undefined' ? new ResizeObserver(scheduleMeasure) : null;
+    resizeObserver?.observe(container);
+
+    measure();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      scrollTarget.removeEventListener('scroll', scheduleMeasure);
+      window.removeEventListener('resize', scheduleMeasure);
+      resizeObserver?.disconnect();
+    };
+  }, [measure]);
+
+  // Content above the grid (e.g. toasts or the toolbar) can shift it without a scroll event
+  useEffect(() => {
+    measure();
+  }, [itemCount, measure]);
+
+  const columns = Math.max(1, Math.floor((viewport.width + gap) / (minItemWidth + gap)));
+  const rowHeight = itemHeight + gap;
+  const totalRows = Math.ceil(itemCount / columns);
+
+  const firstRow = Math.max(0, Math.floor(viewport.top / rowHeight) - overscanRows);
+  const lastRow = Math.min(totalRows - 1, Math.ceil(viewport.bottom / rowHeight) + overscanRows);
+
+  return {
+    containerRef,
+    columns,
+    startIndex: Math.min(itemCount, firstRow * columns),
+    endIndex: Math.min(itemCount, (lastRow + 1) * columns),
+    paddingTop: firstRow * rowHeight,
+    paddingBottom: Math.max(0, (totalRows - lastRow - 1) * rowHeight)
+  };
+};
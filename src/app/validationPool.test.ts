@@ -0,0 +1,99 @@
+import { createValidationPool, VALIDATION_TIMEOUT } from './validationPool';
+
+// jsdom has no Worker; this one never answers unless told to
+class FakeWorker {
+  static created: FakeWorker[] = [];
+  terminated = false;
+  private listeners: Array<(event: MessageEvent) => void> = [];
+
+  constructor(readonly url: string) {
+    FakeWorker.created.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    if (type === 'message') this.listeners.push(listener);
+  }
+
+  removeEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners = this.listeners.filter((other) => other !== listener);
+  }
+
+  postMessage() {}
+
+  reply(data: object) {
+    this.listeners.forEach((listener) => listener({ data } as MessageEvent));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const BOUNDS = { minSize: 0, maxSize: 100 };
+const file = (name: string) => new File([], name);
+
+beforeEach(() => {
+  FakeWorker.created = [];
+  (global as unknown as { Worker: typeof FakeWorker }).Worker = FakeWorker;
+  URL.createObjectURL = jest.fn(() => 'blob:worker');
+  URL.revokeObjectURL = jest.fn();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('createValidationPool', () => {
+  it('resolves in-flight and queued requests as cancelled on terminate', async () => {
+    const pool = createValidationPool(1);
+    const first = pool.validate(file('a.jpg'), BOUNDS);
+    const second = pool.validate(file('b.jpg'), BOUNDS);
+    await Promise.resolve();
+
+    pool.terminate();
+    await expect(first).resolves.toEqual({ isValid: false, error: 'cancelled' });
+    await expect(second).resolves.toEqual({ isValid: false, error: 'cancelled' });
+    await expect(pool.validate(file('c.jpg'), BOUNDS)).resolves.toEqual({
+      isValid: false,
+      error: 'cancelled'
+    });
+
+    expect(FakeWorker.created).toHaveLength(1);
+    expect(FakeWorker.created[0].terminated).toBe(true);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:worker');
+  });
+
+  it('replaces a worker that times out and hands it to the next request', async () => {
+    jest.useFakeTimers();
+    const pool = createValidationPool(1);
+    const first = pool.validate(file('a.jpg'), BOUNDS);
+    const second = pool.validate(file('b.jpg'), BOUNDS);
+    await Promise.resolve();
+
+    jest.advanceTimersByTime(VALIDATION_TIMEOUT);
+    await expect(first).resolves.toEqual({ isValid: false, error: 'corrupt' });
+    expect(FakeWorker.created).toHaveLength(2);
+    expect(FakeWorker.created[0].terminated).toBe(true);
+
+    await Promise.resolve();
+    FakeWorker.created[1].reply({ id: 1, isValid: true, dimensions: { width: 4, height: 3 } });
+    await expect(second).resolves.toEqual({
+      isValid: true,
+      error: undefined,
+      dimensions: { width: 4, height: 3 }
+    });
+    pool.terminate();
+  });
+
+  it('spawns no worker after terminate', async () => {
+    jest.useFakeTimers();
+    const pool = createValidationPool(1);
+    const result = pool.validate(file('a.jpg'), BOUNDS);
+    await Promise.resolve();
+
+    pool.terminate();
+    jest.advanceTimersByTime(VALIDATION_TIMEOUT);
+    await expect(result).resolves.toEqual({ isValid: false, error: 'cancelled' });
+    expect(FakeWorker.created).toHaveLength(1);
+  });
+});
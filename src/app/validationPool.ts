@@ -0,0 +1,203 @@
+// validationPool.ts
+// Validates images in a pool of Web Workers so decoding large files does not block the UI
+// The worker is built from an inline source so it needs no bundler or test-runner support
+
+// 'cancelled' is reported for files still queued or decoding when the pool is terminated
+export type ValidationError = 'too_small' | 'too_large' | 'corrupt' | 'cancelled';
+
+export interface ValidationResult {
+  isValid: boolean;
+  error?: ValidationError;
+  // Upright size of a valid image
+  dimensions?: { width: number; height: number };
+}
+
+export interface ValidationBounds {
+  minSize: number;
+  maxSize: number;
+}
+
+// Decodes the file, checks its dimensions and reads back a 1x1 sample to detect corruption
+// Dimensions are of the upright image, after EXIF orientation, matching the cropper
+const WORKER_SOURCE = `
+const decode = (file) =>
+  createImageBitmap(file, { imageOrientation: 'from-image' }).catch(() => createImageBitmap(file));
+
+self.onmessage = async (event) => {
+  const { id, file, minSize, maxSize } = event.data;
+  let bitmap = null;
+  try {
+    bitmap = await decode(file);
+    const { width, height } = bitmap;
+    if (width < minSize || height < minSize) {
+      self.postMessage({ id, isValid: false, error: 'too_small' });
+      return;
+    }
+    if (width > maxSize || height > maxSize) {
+      self.postMessage({ id, isValid: false, error: 'too_large' });
+      return;
+    }
+    const canvas = new OffscreenCanvas(1, 1);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      self.postMessage({ id, isValid: false, error: 'corrupt' });
+      return;
+    }
+    ctx.drawImage(bitmap, 0, 0, 1, 1);
+    ctx.getImageData(0, 0, 1, 1);
+    self.postMessage({ id, isValid: true, dimensions: { width, height } });
+  } catch (error) {
+    self.postMessage({ id, isValid: false, error: 'corrupt' });
+  } finally {
+    if (bitmap) bitmap.close();
+  }
+};
+`;
+
+export const VALIDATION_TIMEOUT = 10000;
+
+export const MAX_POOL_SIZE = 4;
+
+export const isWorkerValidationSupported = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+interface PooledWorker {
+  worker: Worker;
+  busy: boolean;
+}
+
+export interface ValidationPool {
+  validate: (file: File, bounds: ValidationBounds) => Promise<ValidationResult>;
+  terminate: () => void;
+}
+
+// Creates a pool of up to `size` workers; each validate() call uses one idle worker
+// A worker that exceeds the timeout is replaced and the file reported as corrupt
+// terminate() can be called at any time; unfinished validate() calls resolve as cancelled
+export const createValidationPool = (size: number): ValidationPool => {
+  const scriptUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+  const workers: PooledWorker[] = [];
+  // Resolved with null when the pool is terminated before a worker frees up
+  const waiting: Array<(pooled: PooledWorker | null) => void> = [];
+  // Cancels a request that has a worker, resolving it right away
+  const pending = new Set<() => void>();
+  let nextId = 0;
+  let terminated = false;
+
+  const spawn = (): PooledWorker => ({ worker: new Worker(scriptUrl), busy: false });
+
+  const acquire = (): Promise<PooledWorker | null> => {
+    const idle = workers.find((pooled) => !pooled.busy);
+    if (idle) {
+      idle.busy = true;
+      return Promise.resolve(idle);
+    }
+    if (workers.length < size) {
+      const pooled = spawn();
+      pooled.busy = true;
+      workers.push(pooled);
+      return Promise.resolve(pooled);
+    }
+    return new Promise((resolve) => waiting.push(resolve));
+  };
+
+  const release = (pooled: PooledWorker) => {
+    if (terminated) return;
+    const next = waiting.shift();
+    if (next) {
+      next(pooled);
+    } else {
+      pooled.busy = false;
+    }
+  };
+
+  const validate = async (file: File, bounds: ValidationBounds): Promise<ValidationResult> => {
+    if (terminated) return { isValid: false, error: 'cancelled' };
+
+    const acquired = await acquire();
+    if (!acquired || terminated) return { isValid: false, error: 'cancelled' };
+    let pooled = acquired;
+    const id = nextId++;
+
+    return new Promise<ValidationResult>((resolve) => {
+      const timeout = setTimeout(() => {
+        // A stuck decode cannot be interrupted, so replace the worker
+        pooled.worker.terminate();
+        if (terminated) return;
+        const index = workers.indexOf(pooled);
+        pooled = spawn();
+        pooled.busy = true;
+        if (index !== -1) workers[index] = pooled;
+        finish({ isValid: false, error: 'corrupt' });
+      }, VALIDATION_TIMEOUT);
+
+      const handleMessage = (event: MessageEvent) => {
+        if (event.data?.id !== id) return;
+        finish({
+          isValid: event.data.isValid,
+          error: event.data.error,
+          dimensions: event.data.dimensions
+        });
+      };
+
+      const handleError = () => finish({ isValid: false, error: 'corrupt' });
+      const cancel = () => finish({ isValid: false, error: 'cancelled' });
+
+      const worker = pooled.worker;
+      const finish = (result: ValidationResult) => {
+        if (!pending.delete(cancel)) return;
+        clearTimeout(timeout);
+        worker.removeEventListener('message', handleMessage);
+        worker.removeEventListener('error', handleError);
+        release(pooled);
+        resolve(result);
+      };
+
+      pending.add(cancel);
+      worker.addEventListener('message', handleMessage);
+      worker.addEventListener('error', handleError);
+      worker.postMessage({ id, file, minSize: bounds.minSize, maxSize: bounds.maxSize });
+    });
+  };
+
+  const terminate = () => {
+    if (terminated) return;
+    terminated = true;
+    pending.forEach((cancel) => cancel());
+    waiting.splice(0).forEach((next) => next(null));
+    workers.forEach((pooled) => pooled.worker.terminate());
+    workers.length = 0;
+    URL.revokeObjectURL(scriptUrl);
+  };
+
+  return { validate, terminate };
+};
+
+// Runs a task for every item with at most `concurrency` in flight
+// Stops starting new tasks once the signal is aborted; results keep item order
+// and items that never ran are left undefined
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+  options: { signal?: AbortSignal; onProgress?: (done: number) => void } = {}
+): Promise<Array<R | undefined>> => {
+  const results: Array<R | undefined> = new Array(items.length);
+  let nextIndex = 0;
+  let done = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length && !options.signal?.aborted) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+      done++;
+      options.onProgress?.(done);
+    }
+  };
+
+  const runners = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runNext);
+  await Promise.all(runners);
+  return results;
+};
@@ -0,0 +1,91 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { createZip } from './zip';
+
+// jsdom does not provide the encoding API
+Object.assign(global, { TextEncoder, TextDecoder });
+
+const readBlob = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('createZip', () => {
+  const entries = [
+    { name: 'check.txt', data: new Blob(['123456789']), lastModified: Date.UTC(2024, 5, 1) },
+    { name: 'café/ü.txt', data: new Blob(['second entry']), lastModified: Date.UTC(2024, 5, 1) }
+  ];
+
+  let bytes: Uint8Array;
+  let view: DataView;
+
+  beforeAll(async () => {
+    const zip = await createZip(entries);
+    expect(zip.type).toBe('application/zip');
+    bytes = await readBlob(zip);
+    view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  });
+
+  const readEnd = () => {
+    const end = bytes.length - 22;
+    return {
+      signature: view.getUint32(end, true),
+      diskEntries: view.getUint16(end + 8, true),
+      totalEntries: view.getUint16(end + 10, true),
+      centralSize: view.getUint32(end + 12, true),
+      centralOffset: view.getUint32(end + 16, true)
+    };
+  };
+
+  it('writes local headers with the UTF-8 flag, CRC-32 and sizes', () => {
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0800);
+    expect(view.getUint16(8, true)).toBe(0);
+    // Standard check value for CRC-32 of "123456789"
+    expect(view.getUint32(14, true)).toBe(0xcbf43926);
+    expect(view.getUint32(18, true)).toBe(9);
+    expect(view.getUint32(22, true)).toBe(9);
+    expect(view.getUint16(26, true)).toBe('check.txt'.length);
+    expect(text(bytes.subarray(30, 39))).toBe('check.txt');
+    expect(text(bytes.subarray(39, 48))).toBe('123456789');
+  });
+
+  it('stores the second entry after the first, with its UTF-8 name', () => {
+    const second = 30 + 9 + 9;
+    const nameLength = view.getUint16(second + 26, true);
+    expect(view.getUint32(second, true)).toBe(0x04034b50);
+    expect(nameLength).toBe(new TextEncoder().encode('café/ü.txt').length);
+    expect(text(bytes.subarray(second + 30, second + 30 + nameLength))).toBe('café/ü.txt');
+  });
+
+  it('ends with a directory record pointing at the central directory', () => {
+    const end = readEnd();
+    expect(end.signature).toBe(0x06054b50);
+    expect(end.diskEntries).toBe(2);
+    expect(end.totalEntries).toBe(2);
+    expect(end.centralOffset + end.centralSize).toBe(bytes.length - 22);
+  });
+
+  it('points each central directory record at its local header', () => {
+    let position = readEnd().centralOffset;
+    entries.forEach(() => {
+      expect(view.getUint32(position, true)).toBe(0x02014b50);
+      expect(view.getUint16(position + 8, true)).toBe(0x0800);
+      const crc = view.getUint32(position + 16, true);
+      const nameLength = view.getUint16(position + 28, true);
+      const localOffset = view.getUint32(position + 42, true);
+
+      expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+      expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+      expect(text(bytes.subarray(position + 46, position + 46 + nameLength))).toBe(
+        text(bytes.subarray(localOffset + 30, localOffset + 30 + nameLength))
+      );
+      position += 46 + nameLength;
+    });
+    expect(position).toBe(bytes.length - 22);
+  });
+});
@@ -1 +1,25 @@
 /// <reference types="react-scripts" />
+
+// tracking.js has no typings; these cover the parts faceCrop.ts uses
+declare module 'tracking';
+declare module 'tracking/build/data/face';
+
+interface TrackingViolaJones {
+  classifiers: { face?: Float64Array };
+  // Returns merged detections; total is the number of overlapping windows merged into each
+  detect: (
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    initialScale: number,
+    scaleFactor: number,
+    stepSize: number,
+    edgesDensity: number,
+    classifier: Float64Array
+  ) => Array<import('./app/types').CropDimensions & { total: number }>;
+}
+
+// tracking.js registers itself as a global when loaded rather than exporting anything
+interface Window {
+  tracking?: { ViolaJones: TrackingViolaJones };
+}